@@ -1,69 +1,199 @@
 import React, { useState } from 'react'
 import { Header } from './components/Header'
 import { UrlInput } from './components/UrlInput'
+import { BatchInput } from './components/BatchInput'
 import { SummaryCard } from './components/SummaryCard'
 import { HighlightView } from './components/HighlightView'
 import { HistoryPanel } from './components/HistoryPanel'
+import { SummaryDiffView } from './components/SummaryDiffView'
+import { SourceReader } from './components/SourceReader'
+import { ChatPanel } from './components/ChatPanel'
+import { AnalysisOptionsPanel } from './components/AnalysisOptionsPanel'
+import { TemplateManager } from './components/TemplateManager'
+import { EndpointSettings } from './components/EndpointSettings'
+import { CompareInput } from './components/CompareInput'
+import { PendingQueueList } from './components/PendingQueueList'
+import { ErrorCard } from './components/ErrorCard'
 import { useSummarizer } from './hooks/useSummarizer'
-import { AlertCircle, Wifi, WifiOff } from 'lucide-react'
+import { useBatchAnalysis } from './hooks/useBatchAnalysis'
+import { usePromptTemplates } from './hooks/usePromptTemplates'
+import { useEndpoints } from './hooks/useEndpoints'
+import { useEvaluation } from './hooks/useEvaluation'
+import { useHealthMonitor } from './hooks/useHealthMonitor'
+import { useOfflineQueue } from './hooks/useOfflineQueue'
+import { Wifi, WifiOff } from 'lucide-react'
+import {
+  AnalysisHistory,
+  AnalysisOptions,
+  AnalysisTarget,
+  ApiStatus,
+  RetryPolicy
+} from './types'
+import {
+  addHighlight,
+  createUserHighlight,
+  removeHighlight,
+  updateHighlight
+} from './utils/annotations'
+import {
+  loadAnalysisOptions,
+  saveAnalysisOptions
+} from './utils/analysisOptions'
+import { HEALTH_STATUS_LABELS } from './utils/healthMonitor'
+import { loadRetryPolicy, saveRetryPolicy } from './utils/retryPolicy'
+import {
+  clearResultCache,
+  loadCacheTtl,
+  saveCacheTtl
+} from './utils/resultCache'
+
+const STATUS_DOT_COLORS: Record<ApiStatus['status'], string> = {
+  online: 'bg-green-500',
+  degraded: 'bg-yellow-500',
+  offline: 'bg-red-500',
+  unknown: 'bg-gray-400'
+}
 
 function App() {
   const [showHistory, setShowHistory] = useState(false)
-  const [apiStatus, setApiStatus] = useState<'online' | 'offline' | 'unknown'>(
-    'unknown'
+  const [showTemplates, setShowTemplates] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  // 正在对比的两条历史记录：[旧, 新]
+  const [comparePair, setComparePair] = useState<
+    [AnalysisHistory, AnalysisHistory] | null
+  >(null)
+  // 请求原文阅读区定位某条高亮
+  const [focusRequest, setFocusRequest] = useState<{
+    id: string
+    nonce: number
+  } | null>(null)
+  const [analysisOptions, setAnalysisOptions] =
+    useState<AnalysisOptions>(loadAnalysisOptions)
+  const [cacheTtlHours, setCacheTtlHours] = useState(loadCacheTtl)
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(loadRetryPolicy)
+
+  const endpoints = useEndpoints()
+  const { activeEndpoint } = endpoints
+  const fallbackEndpoint = endpoints.endpoints.find(
+    (endpoint) => endpoint.id === retryPolicy.fallbackEndpointId
   )
 
   const {
     loadingState,
     currentData,
+    currentItem,
     error,
+    warnings,
     history,
     isStreaming,
+    partialData,
+    cachedAt,
     analyzePage,
     analyzePageStream,
+    refreshCachedResult,
+    retryLastAnalysis,
+    clearError,
+    cancelAnalysis,
+    saveResult,
+    refreshHistory,
     loadFromHistory,
+    updateCurrentData,
+    saveConversation,
     deleteHistoryItem,
     clearAllHistory
-  } = useSummarizer()
-
-  // 测试API连接状态
-  const checkApiStatus = async () => {
-    try {
-      const API_BASE_URL =
-        import.meta.env.VITE_MASTRA_API_URL || 'http://localhost:3000'
-
-      // 使用AbortController实现超时
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 5000)
-
-      const response = await fetch(`${API_BASE_URL}/health`, {
-        method: 'GET',
-        signal: controller.signal
-      })
-
-      clearTimeout(timeoutId)
-      setApiStatus(response.ok ? 'online' : 'offline')
-    } catch {
-      setApiStatus('offline')
-    }
-  }
+  } = useSummarizer({ cacheTtlHours, retryPolicy, fallbackEndpoint })
+
+  const templates = usePromptTemplates()
+  const { apiStatus, checkNow: checkApiStatus } =
+    useHealthMonitor(activeEndpoint)
+  const batch = useBatchAnalysis({
+    onResult: saveResult,
+    analysisOptions,
+    template: templates.selectedTemplate,
+    endpoint: activeEndpoint
+  })
+  const evaluation = useEvaluation()
+  const isApiOffline = apiStatus.status === 'offline'
+  // 流式分析过程中显示已解析出的部分结果
+  const streamingData = isStreaming ? partialData : null
+  // 离线时提交的分析在服务恢复后依次执行
+  const offlineQueue = useOfflineQueue({
+    isOnline:
+      apiStatus.status === 'online' || apiStatus.status === 'degraded',
+    resolveEndpoint: endpoints.resolveEndpoint,
+    onResult: saveResult,
+    retryPolicy
+  })
 
-  // 组件挂载时检查API状态
+  // 记住上次使用的分析选项
   React.useEffect(() => {
-    checkApiStatus()
-    const interval = setInterval(checkApiStatus, 30000) // 每30秒检查一次
-    return () => clearInterval(interval)
-  }, [])
+    saveAnalysisOptions(analysisOptions)
+  }, [analysisOptions])
 
-  const handleAnalyze = async (url: string) => {
-    await analyzePage(url)
+  React.useEffect(() => {
+    saveCacheTtl(cacheTtlHours)
+  }, [cacheTtlHours])
+
+  React.useEffect(() => {
+    saveRetryPolicy(retryPolicy)
+  }, [retryPolicy])
+
+  const handleAnalyze = async (target: AnalysisTarget) => {
+    setComparePair(null)
+    await analyzePage(
+      target,
+      analysisOptions,
+      templates.selectedTemplate,
+      activeEndpoint
+    )
   }
 
   const handleAnalyzeStream = async (
-    url: string,
+    target: AnalysisTarget,
     onChunk?: (chunk: string) => void
   ) => {
-    await analyzePageStream(url, onChunk)
+    setComparePair(null)
+    await analyzePageStream(
+      target,
+      onChunk,
+      analysisOptions,
+      templates.selectedTemplate,
+      activeEndpoint
+    )
+  }
+
+  const handleRefreshCached = async () => {
+    setComparePair(null)
+    await refreshCachedResult()
+  }
+
+  const handleRetry = async () => {
+    setComparePair(null)
+    await retryLastAnalysis()
+  }
+
+  const handleClearCache = () => {
+    if (window.confirm('确定清空所有缓存的分析结果吗？历史记录不受影响。')) {
+      clearResultCache()
+    }
+  }
+
+  const handleLoadItem = (item: AnalysisHistory) => {
+    setComparePair(null)
+    loadFromHistory(item)
+  }
+
+  // 左侧显示新版本的摘要卡片，右侧显示差异
+  const handleCompare = (base: AnalysisHistory, target: AnalysisHistory) => {
+    loadFromHistory(target)
+    setComparePair([base, target])
+  }
+
+  const handleSwapCompare = () => {
+    if (!comparePair) return
+    const [base, target] = comparePair
+    loadFromHistory(base)
+    setComparePair([target, base])
   }
 
   return (
@@ -71,13 +201,15 @@ function App() {
       {/* 头部 */}
       <Header
         onShowHistory={() => setShowHistory(true)}
-        hasHistory={history.length > 0}
+        hasHistory={history.length > 0 || offlineQueue.queue.length > 0}
         apiStatus={apiStatus}
         onCheckApi={checkApiStatus}
+        endpointName={activeEndpoint.name}
+        onShowSettings={() => setShowSettings(true)}
       />
 
       {/* API状态提示 */}
-      {apiStatus === 'offline' && (
+      {isApiOffline && (
         <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-4">
           <div className="flex">
             <div className="flex-shrink-0">
@@ -85,7 +217,7 @@ function App() {
             </div>
             <div className="ml-3">
               <p className="text-sm text-red-700">
-                无法连接到Mastra API服务器。请确保后端服务正在运行。
+                无法连接到Mastra API服务器（{activeEndpoint.name}：{activeEndpoint.baseUrl}）。请确保后端服务正在运行，或在端点设置中切换。
                 <button
                   onClick={checkApiStatus}
                   className="ml-2 font-medium underline hover:text-red-800"
@@ -93,10 +225,30 @@ function App() {
                   重新检查
                 </button>
               </p>
+              <p className="text-xs text-red-600 mt-1">
+                已连续失败 {apiStatus.consecutiveFailures} 次
+                {apiStatus.nextCheckAt &&
+                  `，将于 ${new Date(apiStatus.nextCheckAt).toLocaleTimeString('zh-CN', { hour12: false })} 自动重试`}
+                。此时提交的URL会加入离线队列，恢复在线后自动分析。
+              </p>
             </div>
           </div>
         </div>
       )}
+      {apiStatus.status === 'degraded' && (
+        <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-4">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <Wifi className="h-5 w-5 text-yellow-500" />
+            </div>
+            <p className="ml-3 text-sm text-yellow-800">
+              API服务响应较慢或不稳定
+              {apiStatus.latency !== undefined && `（最近延迟 ${apiStatus.latency} ms）`}
+              ，分析可能需要更长时间或失败。
+            </p>
+          </div>
+        </div>
+      )}
 
       {/* 主体内容 */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -105,43 +257,174 @@ function App() {
           <UrlInput
             onAnalyze={handleAnalyze}
             onAnalyzeStream={handleAnalyzeStream}
+            onCancel={cancelAnalysis}
             loadingState={loadingState}
             isStreaming={isStreaming}
-            disabled={loadingState.isLoading || apiStatus === 'offline'}
+            hasStreamPreview={streamingData !== null}
+            disabled={loadingState.isLoading}
+            onQueue={
+              isApiOffline
+                ? (url) =>
+                    offlineQueue.enqueue(
+                      url,
+                      analysisOptions,
+                      templates.selectedTemplate,
+                      activeEndpoint
+                    )
+                : undefined
+            }
+            queuedCount={offlineQueue.queue.length}
+            optionsPanel={
+              <AnalysisOptionsPanel
+                options={analysisOptions}
+                onChange={setAnalysisOptions}
+                templates={templates.templates}
+                selectedTemplate={templates.selectedTemplate}
+                onSelectTemplate={templates.selectTemplate}
+                onManageTemplates={() => setShowTemplates(true)}
+                endpoints={endpoints.endpoints}
+                selectedEndpoint={activeEndpoint}
+                onSelectEndpoint={endpoints.selectEndpoint}
+                cacheTtlHours={cacheTtlHours}
+                onCacheTtlChange={setCacheTtlHours}
+                onClearCache={handleClearCache}
+                disabled={
+                  loadingState.isLoading ||
+                  batch.isRunning ||
+                  evaluation.isRunning
+                }
+              />
+            }
+            batchInput={
+              <BatchInput
+                items={batch.items}
+                options={batch.options}
+                isRunning={batch.isRunning}
+                disabled={isApiOffline}
+                onOptionsChange={batch.setOptions}
+                onStart={batch.start}
+                onCancel={batch.cancel}
+                onRetryFailed={batch.retryFailed}
+                onClear={batch.clear}
+              />
+            }
+            compareInput={
+              <CompareInput
+                endpoints={endpoints.endpoints}
+                defaultEndpoint={activeEndpoint}
+                evaluations={evaluation.evaluations}
+                current={evaluation.current}
+                isRunning={evaluation.isRunning}
+                onStart={(url, pair) =>
+                  evaluation.start(
+                    url,
+                    pair,
+                    analysisOptions,
+                    templates.selectedTemplate
+                  )
+                }
+                onCancel={evaluation.cancel}
+                onSelect={evaluation.select}
+                onPreference={evaluation.setPreference}
+                onNoteChange={evaluation.setNote}
+                onDelete={evaluation.deleteEvaluation}
+                onClear={evaluation.clearEvaluations}
+              />
+            }
           />
         </div>
 
-        {/* 错误提示 */}
+        {/* 错误提示，按错误类型给出建议和可执行的操作 */}
         {error && (
-          <div className="mb-8 card border-red-200 bg-red-50">
-            <div className="flex items-start space-x-3">
-              <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
-              <div>
-                <h3 className="text-sm font-medium text-red-800 mb-1">
-                  分析失败
-                </h3>
-                <p className="text-sm text-red-700">{error}</p>
-                <p className="text-xs text-red-600 mt-1">
-                  请检查网络连接和URL是否正确，或稍后重试。
-                </p>
-              </div>
-            </div>
+          <div className="mb-8">
+            <ErrorCard
+              error={error}
+              onRetry={handleRetry}
+              isRetrying={loadingState.isLoading}
+              onOpenSettings={() => setShowSettings(true)}
+              onDismiss={clearError}
+            />
           </div>
         )}
 
-        {/* 结果展示区域 */}
-        {currentData && (
+        {/* 流式分析中的部分结果，完成后替换为完整结果 */}
+        {streamingData && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-            {/* 左侧：摘要卡片 */}
-            <div className="space-y-6">
-              <SummaryCard data={currentData} />
+            <SummaryCard data={streamingData} isStreaming />
+            <HighlightView highlights={streamingData.highlights} isStreaming />
+          </div>
+        )}
+
+        {/* 结果展示区域 */}
+        {currentData && !streamingData && (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              {/* 左侧：摘要卡片 */}
+              <div className="space-y-6">
+                <SummaryCard
+                  data={currentData}
+                  warnings={warnings}
+                  cachedAt={cachedAt}
+                  onRefresh={handleRefreshCached}
+                  isRefreshing={loadingState.isLoading}
+                />
+                {currentData.sourceText && (
+                  <SourceReader
+                    sourceText={currentData.sourceText}
+                    highlights={currentData.highlights}
+                    focusRequest={focusRequest}
+                  />
+                )}
+              </div>
+
+              {/* 右侧：高亮显示或摘要对比 */}
+              <div className="space-y-6">
+                {comparePair ? (
+                  <SummaryDiffView
+                    base={comparePair[0]}
+                    target={comparePair[1]}
+                    onSwap={handleSwapCompare}
+                    onClose={() => setComparePair(null)}
+                  />
+                ) : (
+                  <HighlightView
+                    highlights={currentData.highlights}
+                    onLocate={
+                      currentData.sourceText
+                        ? (id) => setFocusRequest({ id, nonce: Date.now() })
+                        : undefined
+                    }
+                    onAddHighlight={(text, type, note) =>
+                      updateCurrentData(
+                        addHighlight(
+                          currentData,
+                          createUserHighlight(text, type, note)
+                        )
+                      )
+                    }
+                    onUpdateHighlight={(id, patch) =>
+                      updateCurrentData(updateHighlight(currentData, id, patch))
+                    }
+                    onRemoveHighlight={(id) =>
+                      updateCurrentData(removeHighlight(currentData, id))
+                    }
+                  />
+                )}
+              </div>
             </div>
 
-            {/* 右侧：高亮显示 */}
-            <div className="space-y-6">
-              <HighlightView highlights={currentData.highlights} />
+            {/* 追问对话，切换记录时重新挂载以载入对应的对话 */}
+            <div className="mt-8">
+              <ChatPanel
+                key={currentItem?.id ?? currentData.createdAt}
+                data={currentData}
+                initialConversation={currentItem?.conversation}
+                itemId={currentItem?.id}
+                onPersist={saveConversation}
+                endpoint={endpoints.resolveEndpoint(currentData.endpoint?.id)}
+              />
             </div>
-          </div>
+          </>
         )}
 
         {/* 没有数据时的占位符 */}
@@ -150,7 +433,7 @@ function App() {
             <div className="max-w-md mx-auto">
               <div className="w-16 h-16 bg-gradient-to-br from-primary-100 to-primary-200 rounded-full flex items-center justify-center mx-auto mb-6">
                 <div className="w-8 h-8 bg-gradient-to-br from-primary-500 to-primary-600 rounded-full flex items-center justify-center">
-                  {apiStatus === 'online' ? (
+                  {apiStatus.status !== 'offline' ? (
                     <Wifi className="w-4 h-4 text-white" />
                   ) : (
                     <WifiOff className="w-4 h-4 text-white" />
@@ -186,20 +469,11 @@ function App() {
               <div className="mt-6 flex items-center justify-center space-x-2">
                 <div
                   className={`w-2 h-2 rounded-full ${
-                    apiStatus === 'online'
-                      ? 'bg-green-500'
-                      : apiStatus === 'offline'
-                      ? 'bg-red-500'
-                      : 'bg-yellow-500'
+                    STATUS_DOT_COLORS[apiStatus.status]
                   }`}
                 ></div>
                 <span className="text-xs text-gray-500">
-                  API状态:{' '}
-                  {apiStatus === 'online'
-                    ? '在线'
-                    : apiStatus === 'offline'
-                    ? '离线'
-                    : '检查中'}
+                  API状态: {HEALTH_STATUS_LABELS[apiStatus.status]}
                 </span>
               </div>
             </div>
@@ -236,10 +510,53 @@ function App() {
         isOpen={showHistory}
         onClose={() => setShowHistory(false)}
         history={history}
-        onLoadItem={loadFromHistory}
+        onLoadItem={handleLoadItem}
         onDeleteItem={deleteHistoryItem}
         onClearAll={clearAllHistory}
+        onImported={refreshHistory}
+        onCompare={handleCompare}
+        pendingQueue={
+          offlineQueue.queue.length > 0 ? (
+            <PendingQueueList
+              queue={offlineQueue.queue}
+              isOnline={!isApiOffline}
+              onMove={offlineQueue.move}
+              onRemove={offlineQueue.remove}
+              onRetry={offlineQueue.retry}
+            />
+          ) : undefined
+        }
       />
+
+      {/* 提示词模板管理 */}
+      {showTemplates && (
+        <TemplateManager
+          templates={templates.templates}
+          selectedId={templates.selectedTemplate.id}
+          analysisOptions={analysisOptions}
+          onSelect={templates.selectTemplate}
+          onCreate={templates.createTemplate}
+          onUpdate={templates.updateTemplate}
+          onDuplicate={templates.duplicateTemplate}
+          onDelete={templates.deleteTemplate}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
+      {/* 服务端点设置 */}
+      {showSettings && (
+        <EndpointSettings
+          endpoints={endpoints.endpoints}
+          defaultId={endpoints.defaultEndpoint.id}
+          onAdd={endpoints.addEndpoint}
+          onUpdate={endpoints.updateEndpoint}
+          onRemove={endpoints.removeEndpoint}
+          onSetDefault={endpoints.setDefaultEndpoint}
+          retryPolicy={retryPolicy}
+          onRetryPolicyChange={setRetryPolicy}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
     </div>
   )
 }
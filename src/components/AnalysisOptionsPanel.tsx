@@ -0,0 +1,268 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp, RotateCcw, FileCode, Trash2 } from 'lucide-react';
+import { AgentEndpoint, AnalysisOptions, PromptTemplate } from '../types';
+import {
+  DEFAULT_ANALYSIS_OPTIONS,
+  FOCUS_OPTIONS,
+  KEY_POINTS_RANGE,
+  LANGUAGE_OPTIONS,
+  LENGTH_OPTIONS,
+  TEMPERATURE_RANGE,
+  describeAnalysisOptions
+} from '../utils/analysisOptions';
+import { CACHE_TTL_OPTIONS } from '../utils/resultCache';
+
+interface AnalysisOptionsPanelProps {
+  options: AnalysisOptions;
+  onChange: (options: AnalysisOptions) => void;
+  templates: PromptTemplate[];
+  selectedTemplate: PromptTemplate;
+  onSelectTemplate: (id: string) => void;
+  onManageTemplates: () => void;
+  endpoints: AgentEndpoint[];
+  selectedEndpoint: AgentEndpoint;
+  onSelectEndpoint: (id: string) => void;
+  cacheTtlHours: number;
+  onCacheTtlChange: (hours: number) => void;
+  onClearCache: () => void;
+  disabled?: boolean;
+}
+
+const SegmentedControl = <T extends string>({
+  value,
+  options,
+  onChange,
+  disabled
+}: {
+  value: T;
+  options: Record<T, { label: string }>;
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}) => (
+  <div className="inline-flex flex-wrap p-1 bg-gray-100 rounded-lg text-sm">
+    {(Object.keys(options) as T[]).map((key) => (
+      <button
+        key={key}
+        type="button"
+        onClick={() => onChange(key)}
+        disabled={disabled}
+        className={`px-3 py-1 rounded-md font-medium transition-colors duration-200 disabled:cursor-not-allowed ${
+          value === key ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+        }`}
+      >
+        {options[key].label}
+      </button>
+    ))}
+  </div>
+);
+
+export const AnalysisOptionsPanel: React.FC<AnalysisOptionsPanelProps> = ({
+  options,
+  onChange,
+  templates,
+  selectedTemplate,
+  onSelectTemplate,
+  onManageTemplates,
+  endpoints,
+  selectedEndpoint,
+  onSelectEndpoint,
+  cacheTtlHours,
+  onCacheTtlChange,
+  onClearCache,
+  disabled = false
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // 只有一个端点时不在摘要中显示
+  const summary = [
+    ...(endpoints.length > 1 ? [selectedEndpoint.name] : []),
+    selectedTemplate.name,
+    ...describeAnalysisOptions(options)
+  ];
+
+  const update = <K extends keyof AnalysisOptions>(key: K, value: AnalysisOptions[K]) =>
+    onChange({ ...options, [key]: value });
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2.5 text-sm text-gray-600 hover:bg-gray-50 rounded-lg"
+      >
+        <span className="flex items-center space-x-2 min-w-0">
+          <SlidersHorizontal className="w-4 h-4 flex-shrink-0" />
+          <span className="font-medium flex-shrink-0">分析选项</span>
+          {!isOpen && (
+            <span className="text-xs text-gray-400 truncate">
+              {summary.join(' · ')}
+            </span>
+          )}
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 pt-2 space-y-4 border-t border-gray-100 text-sm">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1.5 md:col-span-2">
+              <div className="font-medium text-gray-700">提示词模板</div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={selectedTemplate.id}
+                  onChange={(e) => onSelectTemplate(e.target.value)}
+                  disabled={disabled}
+                  className="block flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+                >
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.builtIn ? template.name : `${template.name} (v${template.version})`}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={onManageTemplates}
+                  disabled={disabled}
+                  className="btn-secondary flex items-center space-x-1 flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <FileCode className="w-4 h-4" />
+                  <span>管理模板</span>
+                </button>
+              </div>
+              {selectedTemplate.description && (
+                <p className="text-xs text-gray-400">{selectedTemplate.description}</p>
+              )}
+            </div>
+
+            <label className="space-y-1.5 block md:col-span-2">
+              <span className="font-medium text-gray-700">服务端点</span>
+              <select
+                value={selectedEndpoint.id}
+                onChange={(e) => onSelectEndpoint(e.target.value)}
+                disabled={disabled}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+              >
+                {endpoints.map((endpoint) => (
+                  <option key={endpoint.id} value={endpoint.id}>
+                    {endpoint.name}（{endpoint.agentId} @ {endpoint.baseUrl}）
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <div className="space-y-1.5">
+              <div className="font-medium text-gray-700">摘要长度</div>
+              <SegmentedControl
+                value={options.length}
+                options={LENGTH_OPTIONS}
+                onChange={(value) => update('length', value)}
+                disabled={disabled}
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <div className="font-medium text-gray-700">分析视角</div>
+              <SegmentedControl
+                value={options.focus}
+                options={FOCUS_OPTIONS}
+                onChange={(value) => update('focus', value)}
+                disabled={disabled}
+              />
+            </div>
+
+            <label className="space-y-1.5 block">
+              <span className="font-medium text-gray-700">输出语言</span>
+              <select
+                value={options.language}
+                onChange={(e) => update('language', e.target.value as AnalysisOptions['language'])}
+                disabled={disabled}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+              >
+                {(Object.keys(LANGUAGE_OPTIONS) as AnalysisOptions['language'][]).map((key) => (
+                  <option key={key} value={key}>
+                    {LANGUAGE_OPTIONS[key].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="space-y-1.5 block">
+              <span className="font-medium text-gray-700">关键要点数量：{options.maxKeyPoints}</span>
+              <input
+                type="range"
+                min={KEY_POINTS_RANGE.min}
+                max={KEY_POINTS_RANGE.max}
+                value={options.maxKeyPoints}
+                onChange={(e) => update('maxKeyPoints', Number(e.target.value))}
+                disabled={disabled}
+                className="block w-full"
+              />
+            </label>
+
+            <div className="space-y-1.5 md:col-span-2">
+              <div className="font-medium text-gray-700">
+                结果缓存
+                <span className="ml-2 text-xs font-normal text-gray-400">
+                  同一网页以相同端点、模板和选项分析时直接返回缓存结果
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={cacheTtlHours}
+                  onChange={(e) => onCacheTtlChange(Number(e.target.value))}
+                  disabled={disabled}
+                  className="block flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+                >
+                  {CACHE_TTL_OPTIONS.map((option) => (
+                    <option key={option.hours} value={option.hours}>
+                      {option.hours > 0 ? `有效期 ${option.label}` : option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={onClearCache}
+                  disabled={disabled}
+                  className="btn-secondary flex items-center space-x-1 flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>清空缓存</span>
+                </button>
+              </div>
+            </div>
+
+            <label className="space-y-1.5 block md:col-span-2">
+              <span className="font-medium text-gray-700">
+                模型温度：{options.temperature.toFixed(1)}
+                <span className="ml-2 text-xs font-normal text-gray-400">越低越稳定，越高越有创造性</span>
+              </span>
+              <input
+                type="range"
+                min={TEMPERATURE_RANGE.min}
+                max={TEMPERATURE_RANGE.max}
+                step={TEMPERATURE_RANGE.step}
+                value={options.temperature}
+                onChange={(e) => update('temperature', Number(e.target.value))}
+                disabled={disabled}
+                className="block w-full"
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => onChange(DEFAULT_ANALYSIS_OPTIONS)}
+              disabled={disabled}
+              className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              <span>恢复默认</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
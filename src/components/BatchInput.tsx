@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Upload, Play, Square, RotateCcw, Loader2, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { BatchItem, BatchOptions } from '../types';
+import { extractUrls, MAX_BATCH_CONCURRENCY } from '../utils/batchQueue';
+
+interface BatchInputProps {
+  items: BatchItem[];
+  options: BatchOptions;
+  isRunning: boolean;
+  disabled?: boolean;
+  onOptionsChange: (options: BatchOptions) => void;
+  onStart: (urls: string[]) => void;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onClear: () => void;
+}
+
+const STATUS_CONFIG = {
+  queued: { label: '排队中', icon: Clock, color: 'text-gray-500' },
+  running: { label: '分析中', icon: Loader2, color: 'text-primary-600' },
+  done: { label: '已完成', icon: CheckCircle, color: 'text-green-600' },
+  failed: { label: '失败', icon: XCircle, color: 'text-red-600' }
+} as const;
+
+export const BatchInput: React.FC<BatchInputProps> = ({
+  items,
+  options,
+  isRunning,
+  disabled = false,
+  onOptionsChange,
+  onStart,
+  onCancel,
+  onRetryFailed,
+  onClear
+}) => {
+  const [text, setText] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+
+  const urls = extractUrls(text);
+  const counts = items.reduce((acc, item) => {
+    acc[item.status] = (acc[item.status] || 0) + 1;
+    return acc;
+  }, {} as Record<BatchItem['status'], number>);
+  const finished = (counts.done || 0) + (counts.failed || 0);
+
+  const readFile = async (file: File) => {
+    try {
+      const content = await file.text();
+      setText((prev) => (prev ? `${prev}\n${content}` : content));
+    } catch (error) {
+      console.error('读取文件失败:', error);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    Array.from(e.dataTransfer.files).forEach(readFile);
+  };
+
+  const handleStart = () => {
+    if (urls.length === 0 || isRunning || disabled) return;
+    onStart(urls);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* URL列表输入 */}
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`relative rounded-lg border-2 border-dashed transition-colors duration-200 ${
+          isDragging ? 'border-primary-500 bg-primary-50' : 'border-gray-300'
+        }`}
+      >
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'每行粘贴一个URL，或将包含链接的文本文件拖放到这里\nhttps://example.com/article-1\nhttps://example.com/article-2'}
+          disabled={isRunning || disabled}
+          rows={6}
+          className="block w-full p-3 bg-transparent rounded-lg text-sm font-mono focus:outline-none disabled:cursor-not-allowed resize-y"
+        />
+      </div>
+
+      {/* 选项 */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+        <label className="flex items-center space-x-2 cursor-pointer text-primary-600 hover:text-primary-700">
+          <Upload className="w-4 h-4" />
+          <span>导入文件</span>
+          <input
+            type="file"
+            accept=".txt,.csv,.md,text/plain"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              Array.from(e.target.files || []).forEach(readFile);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>并发数</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_BATCH_CONCURRENCY}
+            value={options.concurrency}
+            disabled={isRunning}
+            onChange={(e) =>
+              onOptionsChange({ ...options, concurrency: Number(e.target.value) || 1 })
+            }
+            className="w-16 px-2 py-1 border border-gray-300 rounded"
+          />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>失败重试</span>
+          <input
+            type="number"
+            min={0}
+            max={5}
+            value={options.maxRetries}
+            disabled={isRunning}
+            onChange={(e) =>
+              onOptionsChange({ ...options, maxRetries: Math.max(0, Number(e.target.value) || 0) })
+            }
+            className="w-16 px-2 py-1 border border-gray-300 rounded"
+          />
+          <span>次</span>
+        </label>
+        <span className="ml-auto text-gray-500">识别到 {urls.length} 个URL</span>
+      </div>
+
+      {/* 操作按钮 */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        {isRunning ? (
+          <button onClick={onCancel} className="btn-danger flex-1 flex items-center justify-center space-x-2">
+            <Square className="w-4 h-4" />
+            <span>停止批量分析</span>
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={urls.length === 0 || disabled}
+            className="btn-primary flex-1 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="w-4 h-4" />
+            <span>开始批量分析</span>
+          </button>
+        )}
+        {!isRunning && (counts.failed || 0) > 0 && (
+          <button onClick={onRetryFailed} className="btn-secondary flex items-center justify-center space-x-2">
+            <RotateCcw className="w-4 h-4" />
+            <span>重试失败项</span>
+          </button>
+        )}
+      </div>
+
+      {/* 队列状态 */}
+      {items.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>
+              进度 {finished}/{items.length}
+              {counts.failed ? `（失败 ${counts.failed}）` : ''}
+            </span>
+            {!isRunning && (
+              <button onClick={onClear} className="text-gray-500 hover:text-gray-700">
+                清空队列
+              </button>
+            )}
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-gradient-to-r from-primary-500 to-primary-600 h-2 rounded-full transition-all duration-300 ease-out"
+              style={{ width: `${(finished / items.length) * 100}%` }}
+            />
+          </div>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {items.map((item) => {
+              const config = STATUS_CONFIG[item.status];
+              const Icon = config.icon;
+              return (
+                <li key={item.id} className="flex items-start space-x-3 px-3 py-2 text-sm">
+                  <Icon
+                    className={`w-4 h-4 mt-0.5 flex-shrink-0 ${config.color} ${
+                      item.status === 'running' ? 'animate-spin' : ''
+                    }`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate text-gray-800">{item.title || item.url}</div>
+                    {item.title && <div className="truncate text-xs text-gray-500">{item.url}</div>}
+                    {item.error && <div className="text-xs text-red-600">{item.error}</div>}
+                  </div>
+                  <span className={`text-xs flex-shrink-0 ${config.color}`}>
+                    {config.label}
+                    {item.attempts > 1 ? ` · 第${item.attempts}次` : ''}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageCircle, Send, Square, Trash2, Bot, User, AlertCircle } from 'lucide-react';
+import { AgentEndpoint, ChatMessage, SummaryData } from '../types';
+import { useChat } from '../hooks/useChat';
+
+interface ChatPanelProps {
+  data: SummaryData;
+  initialConversation?: ChatMessage[];
+  // 对话所属的历史记录，结果未保存时为空
+  itemId?: string;
+  onPersist: (itemId: string, conversation: ChatMessage[]) => Promise<void>;
+  endpoint: AgentEndpoint;
+}
+
+const SUGGESTED_QUESTIONS = [
+  '这篇文章的核心论点是什么？',
+  '文中有哪些数据支撑结论？',
+  '这些内容对我有什么实际意义？'
+];
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({
+  data,
+  initialConversation,
+  itemId,
+  onPersist,
+  endpoint
+}) => {
+  const { messages, isReplying, error, send, stop, clear } = useChat({
+    data,
+    initialConversation,
+    itemId,
+    onPersist,
+    endpoint
+  });
+  const [input, setInput] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 新消息或流式输出时保持滚动到底部
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages]);
+
+  const handleSend = (question: string) => {
+    if (!question.trim() || isReplying) return;
+    setInput('');
+    send(question);
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <MessageCircle className="w-5 h-5 text-primary-600" />
+          <span>追问</span>
+        </h2>
+        {messages.length > 0 && (
+          <button
+            onClick={clear}
+            disabled={isReplying}
+            className="flex items-center space-x-1 text-sm text-gray-500 hover:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>清空对话</span>
+          </button>
+        )}
+      </div>
+
+      {messages.length === 0 ? (
+        <div className="mb-4">
+          <p className="text-sm text-gray-500 mb-3">
+            对摘要还有疑问？基于本页分析结果继续提问：
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTED_QUESTIONS.map((question) => (
+              <button
+                key={question}
+                onClick={() => handleSend(question)}
+                className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-full text-sm hover:bg-primary-50 hover:text-primary-700 transition-colors duration-200"
+              >
+                {question}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div ref={listRef} className="max-h-96 overflow-y-auto space-y-4 mb-4 pr-2">
+          {messages.map((message) => {
+            const isUser = message.role === 'user';
+            return (
+              <div
+                key={message.id}
+                className={`flex items-start space-x-2 ${isUser ? 'flex-row-reverse space-x-reverse' : ''}`}
+              >
+                <div
+                  className={`w-7 h-7 rounded-full flex items-center justify-center flex-shrink-0 ${
+                    isUser ? 'bg-primary-100 text-primary-700' : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  {isUser ? <User className="w-4 h-4" /> : <Bot className="w-4 h-4" />}
+                </div>
+                <div
+                  className={`max-w-[80%] px-4 py-2 rounded-lg text-sm leading-relaxed whitespace-pre-wrap break-words ${
+                    isUser ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-800'
+                  }`}
+                >
+                  {message.content || <span className="loading-dots text-gray-500">思考中</span>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 mb-3 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <form
+        className="flex items-end space-x-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSend(input);
+        }}
+      >
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter发送，Shift+Enter换行；输入法组合输入时不发送
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              handleSend(input);
+            }
+          }}
+          placeholder="输入问题，Enter发送，Shift+Enter换行"
+          rows={2}
+          className="input text-sm resize-none"
+        />
+        {isReplying ? (
+          <button
+            type="button"
+            onClick={stop}
+            className="btn-secondary flex items-center space-x-1 flex-shrink-0"
+          >
+            <Square className="w-4 h-4" />
+            <span>停止</span>
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!input.trim()}
+            className="btn-primary flex items-center space-x-1 flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Send className="w-4 h-4" />
+            <span>发送</span>
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
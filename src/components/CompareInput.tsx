@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { Link, GitCompare, Square, Download, Trash2, ThumbsUp } from 'lucide-react';
+import { AgentEndpoint, Evaluation } from '../types';
+import { downloadFile } from '../utils/exporters';
+import { PREFERENCE_LABELS, toEvaluationJsonl } from '../utils/evaluations';
+import { isHttpUrl } from '../utils/urls';
+import { EvaluationView } from './EvaluationView';
+
+interface CompareInputProps {
+  endpoints: AgentEndpoint[];
+  // A侧默认使用的端点
+  defaultEndpoint: AgentEndpoint;
+  evaluations: Evaluation[];
+  current: Evaluation | null;
+  isRunning: boolean;
+  disabled?: boolean;
+  onStart: (url: string, endpoints: [AgentEndpoint, AgentEndpoint]) => void;
+  onCancel: () => void;
+  onSelect: (id: string) => void;
+  onPreference: (id: string, preferred: Evaluation['preferred']) => void;
+  onNoteChange: (id: string, note: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}
+
+export const CompareInput: React.FC<CompareInputProps> = ({
+  endpoints,
+  defaultEndpoint,
+  evaluations,
+  current,
+  isRunning,
+  disabled = false,
+  onStart,
+  onCancel,
+  onSelect,
+  onPreference,
+  onNoteChange,
+  onDelete,
+  onClear
+}) => {
+  const [url, setUrl] = useState('');
+  const [endpointIds, setEndpointIds] = useState<[string, string]>(() => [
+    defaultEndpoint.id,
+    (endpoints.find((e) => e.id !== defaultEndpoint.id) || defaultEndpoint).id
+  ]);
+
+  // 端点被删除后回退到默认端点
+  const resolve = (id: string) => endpoints.find((e) => e.id === id) || defaultEndpoint;
+  const selected: [AgentEndpoint, AgentEndpoint] = [resolve(endpointIds[0]), resolve(endpointIds[1])];
+  const isSameEndpoint = selected[0].id === selected[1].id;
+  const ratedCount = evaluations.filter((e) => e.preferred !== undefined).length;
+  const canStart = url.trim() !== '' && isHttpUrl(url) && !isRunning && !disabled;
+
+  const handleStart = () => {
+    if (canStart) onStart(url.trim(), selected);
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(toEvaluationJsonl(evaluations), `evaluations-${date}.jsonl`, 'application/x-ndjson');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* URL与端点选择 */}
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <Link className="h-5 w-5 text-gray-400" />
+        </div>
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleStart()}
+          placeholder="https://example.com/article"
+          disabled={isRunning || disabled}
+          className="block w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100 disabled:cursor-not-allowed text-sm"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        {(['A', 'B'] as const).map((label, index) => (
+          <label key={label} className="flex items-center space-x-2">
+            <span className="w-6 h-6 rounded-full bg-gray-900 text-white text-xs font-bold flex items-center justify-center flex-shrink-0">
+              {label}
+            </span>
+            <select
+              value={selected[index].id}
+              onChange={(e) => {
+                const next: [string, string] = [...endpointIds];
+                next[index] = e.target.value;
+                setEndpointIds(next);
+              }}
+              disabled={isRunning}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+            >
+              {endpoints.map((endpoint) => (
+                <option key={endpoint.id} value={endpoint.id}>
+                  {endpoint.name}（{endpoint.agentId}）
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {isSameEndpoint && (
+        <p className="text-xs text-yellow-700">
+          两侧使用同一个端点，可用于观察同一Agent多次输出的差异；如需对比不同Agent，请先在服务端点设置中添加。
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleStart}
+          disabled={!canStart}
+          className="flex-1 flex items-center justify-center space-x-2 bg-primary-600 text-white py-3 px-6 rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <GitCompare className="w-5 h-5" />
+          <span>{isRunning ? '对比中...' : '同时分析并对比'}</span>
+        </button>
+        {isRunning && (
+          <button onClick={onCancel} className="btn-secondary flex items-center space-x-1">
+            <Square className="w-4 h-4" />
+            <span>取消</span>
+          </button>
+        )}
+      </div>
+
+      {/* 当前评测结果 */}
+      {current && (
+        <EvaluationView
+          evaluation={current}
+          onPreference={(preferred) => onPreference(current.id, preferred)}
+          onNoteChange={(note) => onNoteChange(current.id, note)}
+        />
+      )}
+
+      {/* 评测记录 */}
+      {evaluations.length > 0 && (
+        <div className="border-t border-gray-100 pt-4 space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">
+              评测记录 {evaluations.length} 条，已标注 {ratedCount} 条
+            </span>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={handleExport}
+                disabled={ratedCount === 0}
+                className="flex items-center space-x-1 text-primary-600 hover:text-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="导出已标注的评测为JSONL数据集"
+              >
+                <Download className="w-4 h-4" />
+                <span>导出JSONL</span>
+              </button>
+              <button
+                onClick={() => window.confirm('确定清空所有评测记录吗？') && onClear()}
+                className="flex items-center space-x-1 text-gray-500 hover:text-red-600"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>清空</span>
+              </button>
+            </div>
+          </div>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 text-xs">
+            {evaluations.map((evaluation) => (
+              <li
+                key={evaluation.id}
+                onClick={() => onSelect(evaluation.id)}
+                className={`flex items-center justify-between px-2 py-2 cursor-pointer hover:bg-gray-50 ${
+                  evaluation.id === current?.id ? 'bg-primary-50' : ''
+                }`}
+              >
+                <span className="truncate text-gray-700 min-w-0">
+                  {evaluation.runs[0].endpoint.name} vs {evaluation.runs[1].endpoint.name} · {evaluation.url}
+                </span>
+                <span className="flex items-center space-x-2 flex-shrink-0 ml-2">
+                  {evaluation.preferred !== undefined && (
+                    <span className="flex items-center space-x-1 text-green-600">
+                      <ThumbsUp className="w-3 h-3" />
+                      <span>{PREFERENCE_LABELS[evaluation.preferred]}</span>
+                    </span>
+                  )}
+                  <span className="text-gray-400">
+                    {new Date(evaluation.createdAt).toLocaleString('zh-CN')}
+                  </span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDelete(evaluation.id);
+                    }}
+                    className="p-0.5 hover:bg-red-100 rounded"
+                    title="删除此评测"
+                  >
+                    <Trash2 className="w-3 h-3 text-red-500" />
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,380 @@
+import React, { useState } from 'react';
+import { Server, X, Plus, Pencil, Trash2, Star, KeyRound, Loader2, CheckCircle, XCircle, RefreshCw } from 'lucide-react';
+import { AgentEndpoint, RetryPolicy, RetryableErrorKind } from '../types';
+import {
+  EndpointDraft,
+  checkEndpointHealth,
+  normalizeEndpointDraft,
+  validateEndpoint
+} from '../utils/endpoints';
+import { MAX_ATTEMPTS_RANGE, RETRYABLE_ERROR_LABELS } from '../utils/retryPolicy';
+
+interface EndpointSettingsProps {
+  endpoints: AgentEndpoint[];
+  defaultId: string;
+  onAdd: (draft: EndpointDraft) => AgentEndpoint;
+  onUpdate: (id: string, draft: EndpointDraft) => void;
+  onRemove: (id: string) => void;
+  onSetDefault: (id: string) => void;
+  retryPolicy: RetryPolicy;
+  onRetryPolicyChange: (policy: RetryPolicy) => void;
+  onClose: () => void;
+}
+
+const BASE_DELAY_OPTIONS = [500, 1000, 2000, 5000];
+
+const EMPTY_DRAFT: EndpointDraft = {
+  name: '',
+  baseUrl: 'http://localhost:3000',
+  agentId: 'summarizerAgent',
+  authHeader: { name: 'Authorization', value: '' }
+};
+
+const toDraft = (endpoint: AgentEndpoint): EndpointDraft => ({
+  name: endpoint.name,
+  baseUrl: endpoint.baseUrl,
+  agentId: endpoint.agentId,
+  authHeader: endpoint.authHeader || EMPTY_DRAFT.authHeader
+});
+
+type TestState = { status: 'testing' } | { status: 'done'; ok: boolean };
+
+export const EndpointSettings: React.FC<EndpointSettingsProps> = ({
+  endpoints,
+  defaultId,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onSetDefault,
+  retryPolicy,
+  onRetryPolicyChange,
+  onClose
+}) => {
+  // 正在编辑的端点ID，'new' 表示新增
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EndpointDraft>(EMPTY_DRAFT);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [testState, setTestState] = useState<TestState | null>(null);
+
+  const openEditor = (endpoint?: AgentEndpoint) => {
+    setEditingId(endpoint ? endpoint.id : 'new');
+    setDraft(endpoint ? toDraft(endpoint) : EMPTY_DRAFT);
+    setFormError(null);
+    setTestState(null);
+  };
+
+  const closeEditor = () => {
+    setEditingId(null);
+    setFormError(null);
+    setTestState(null);
+  };
+
+  const updateDraft = (changes: Partial<EndpointDraft>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    setTestState(null);
+  };
+
+  const handleSave = () => {
+    const error = validateEndpoint(draft);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    if (editingId === 'new') {
+      onAdd(draft);
+    } else if (editingId) {
+      onUpdate(editingId, draft);
+    }
+    closeEditor();
+  };
+
+  const handleTest = async () => {
+    const error = validateEndpoint(draft);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    setFormError(null);
+    setTestState({ status: 'testing' });
+    const { ok } = await checkEndpointHealth({ ...normalizeEndpointDraft(draft), id: 'test' });
+    setTestState({ status: 'done', ok });
+  };
+
+  const handleRemove = (endpoint: AgentEndpoint) => {
+    if (window.confirm(`确定删除端点「${endpoint.name}」吗？`)) {
+      onRemove(endpoint.id);
+      if (editingId === endpoint.id) closeEditor();
+    }
+  };
+
+  const authHeader = draft.authHeader || EMPTY_DRAFT.authHeader!;
+
+  const updatePolicy = (changes: Partial<RetryPolicy>) =>
+    onRetryPolicyChange({ ...retryPolicy, ...changes });
+
+  const toggleRetryOn = (kind: RetryableErrorKind) =>
+    updatePolicy({
+      retryOn: retryPolicy.retryOn.includes(kind)
+        ? retryPolicy.retryOn.filter((item) => item !== kind)
+        : [...retryPolicy.retryOn, kind]
+    });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      <div className="relative bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in">
+        {/* 头部 */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Server className="w-5 h-5 text-gray-600" />
+            <h2 className="text-lg font-bold text-gray-900">服务端点</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4 text-sm">
+          <p className="text-xs text-gray-500">
+            配置保存在本地浏览器中。分析时可在「分析选项」中切换端点，每条历史记录会标明生成它的端点与Agent。
+          </p>
+
+          {/* 端点列表 */}
+          <ul className="space-y-2">
+            {endpoints.map((endpoint) => (
+              <li
+                key={endpoint.id}
+                className={`border rounded-lg px-4 py-3 flex items-center justify-between space-x-3 ${
+                  editingId === endpoint.id ? 'border-primary-300 bg-primary-50' : 'border-gray-200'
+                }`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900 truncate">{endpoint.name}</span>
+                    {endpoint.id === defaultId && (
+                      <span className="px-1.5 py-0.5 bg-primary-100 text-primary-700 rounded text-xs">默认</span>
+                    )}
+                    {endpoint.authHeader && (
+                      <span title={`携带请求头 ${endpoint.authHeader.name}`}>
+                        <KeyRound className="w-3.5 h-3.5 text-gray-400" />
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {endpoint.baseUrl} · {endpoint.agentId}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  {endpoint.id !== defaultId && (
+                    <button
+                      onClick={() => onSetDefault(endpoint.id)}
+                      className="p-1.5 text-gray-400 hover:text-primary-600 hover:bg-gray-100 rounded"
+                      title="设为默认"
+                    >
+                      <Star className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => openEditor(endpoint)}
+                    className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded"
+                    title="编辑"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleRemove(endpoint)}
+                    disabled={endpoints.length <= 1}
+                    className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-gray-100 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+                    title={endpoints.length <= 1 ? '至少保留一个端点' : '删除'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {/* 编辑表单 */}
+          {editingId ? (
+            <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="font-medium text-gray-900">
+                {editingId === 'new' ? '添加端点' : '编辑端点'}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="block space-y-1">
+                  <span className="text-gray-700">名称</span>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => updateDraft({ name: e.target.value })}
+                    placeholder="例如：生产环境"
+                    className="input py-2"
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-gray-700">Agent ID</span>
+                  <input
+                    type="text"
+                    value={draft.agentId}
+                    onChange={(e) => updateDraft({ agentId: e.target.value })}
+                    className="input py-2"
+                  />
+                </label>
+                <label className="block space-y-1 md:col-span-2">
+                  <span className="text-gray-700">服务地址</span>
+                  <input
+                    type="url"
+                    value={draft.baseUrl}
+                    onChange={(e) => updateDraft({ baseUrl: e.target.value })}
+                    className="input py-2"
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-gray-700">认证请求头（可选）</span>
+                  <input
+                    type="text"
+                    value={authHeader.name}
+                    onChange={(e) => updateDraft({ authHeader: { ...authHeader, name: e.target.value } })}
+                    className="input py-2 font-mono text-xs"
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-gray-700">请求头的值</span>
+                  <input
+                    type="password"
+                    value={authHeader.value}
+                    onChange={(e) => updateDraft({ authHeader: { ...authHeader, value: e.target.value } })}
+                    placeholder="Bearer ..."
+                    autoComplete="off"
+                    className="input py-2 font-mono text-xs"
+                  />
+                </label>
+              </div>
+
+              {formError && <p className="text-xs text-red-600">{formError}</p>}
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={handleTest}
+                    disabled={testState?.status === 'testing'}
+                    className="btn-secondary text-sm flex items-center space-x-1 disabled:opacity-50"
+                  >
+                    {testState?.status === 'testing' && <Loader2 className="w-4 h-4 animate-spin" />}
+                    <span>测试连接</span>
+                  </button>
+                  {testState?.status === 'done' &&
+                    (testState.ok ? (
+                      <span className="flex items-center space-x-1 text-xs text-green-600">
+                        <CheckCircle className="w-4 h-4" />
+                        <span>连接正常</span>
+                      </span>
+                    ) : (
+                      <span className="flex items-center space-x-1 text-xs text-red-600">
+                        <XCircle className="w-4 h-4" />
+                        <span>无法连接</span>
+                      </span>
+                    ))}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button onClick={closeEditor} className="btn-secondary text-sm">
+                    取消
+                  </button>
+                  <button onClick={handleSave} className="btn-primary text-sm">
+                    保存
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => openEditor()}
+              className="w-full flex items-center justify-center space-x-1 px-3 py-2 border border-dashed border-gray-300 text-gray-600 hover:bg-gray-50 rounded-lg"
+            >
+              <Plus className="w-4 h-4" />
+              <span>添加端点</span>
+            </button>
+          )}
+
+          {/* 重试与回退 */}
+          <div className="border-t border-gray-200 pt-4 space-y-3">
+            <div className="flex items-center space-x-2 font-medium text-gray-900">
+              <RefreshCw className="w-4 h-4 text-gray-600" />
+              <span>重试与回退</span>
+            </div>
+            <p className="text-xs text-gray-500">
+              调用失败时按指数退避（带随机抖动）自动重试，服务端返回 Retry-After 时按其等待。
+              流式分析失败后依次回退到普通分析和备用端点，每次尝试都会记录在结果的请求诊断中。
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <label className="block space-y-1">
+                <span className="text-gray-700">每步最多尝试次数</span>
+                <input
+                  type="number"
+                  min={MAX_ATTEMPTS_RANGE.min}
+                  max={MAX_ATTEMPTS_RANGE.max}
+                  value={retryPolicy.maxAttempts}
+                  onChange={(e) =>
+                    updatePolicy({
+                      maxAttempts: Math.min(
+                        MAX_ATTEMPTS_RANGE.max,
+                        Math.max(MAX_ATTEMPTS_RANGE.min, Math.round(Number(e.target.value)) || 1)
+                      )
+                    })
+                  }
+                  className="input py-2"
+                />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-gray-700">首次重试间隔</span>
+                <select
+                  value={retryPolicy.baseDelayMs}
+                  onChange={(e) => updatePolicy({ baseDelayMs: Number(e.target.value) })}
+                  className="input py-2"
+                >
+                  {BASE_DELAY_OPTIONS.map((ms) => (
+                    <option key={ms} value={ms}>
+                      {ms / 1000} 秒
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-gray-700">备用端点</span>
+                <select
+                  value={retryPolicy.fallbackEndpointId ?? ''}
+                  onChange={(e) => updatePolicy({ fallbackEndpointId: e.target.value || undefined })}
+                  className="input py-2"
+                >
+                  <option value="">不使用</option>
+                  {endpoints.map((endpoint) => (
+                    <option key={endpoint.id} value={endpoint.id}>
+                      {endpoint.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+              <span className="text-gray-700">重试以下错误：</span>
+              {(Object.keys(RETRYABLE_ERROR_LABELS) as RetryableErrorKind[]).map((kind) => (
+                <label key={kind} className="flex items-center space-x-1.5">
+                  <input
+                    type="checkbox"
+                    checked={retryPolicy.retryOn.includes(kind)}
+                    onChange={() => toggleRetryOn(kind)}
+                  />
+                  <span>{RETRYABLE_ERROR_LABELS[kind]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  Ban,
+  Clock,
+  FileWarning,
+  FileX,
+  HardDrive,
+  Hourglass,
+  Link2Off,
+  Lock,
+  RefreshCw,
+  Scissors,
+  ServerCrash,
+  Settings,
+  WifiOff,
+  X,
+  XCircle
+} from 'lucide-react';
+import { AnalysisErrorKind } from '../types';
+import { AnalysisError, RateLimitError } from '../utils/analysisErrors';
+
+interface ErrorCardProps {
+  error: AnalysisError;
+  onRetry?: () => void;
+  isRetrying?: boolean;
+  onOpenSettings?: () => void;
+  onDismiss?: () => void;
+}
+
+type Tone = 'danger' | 'warning' | 'muted';
+
+const TONE_STYLES: Record<Tone, { card: string; icon: string; title: string; text: string; button: string }> = {
+  danger: {
+    card: 'border-red-200 bg-red-50',
+    icon: 'text-red-500',
+    title: 'text-red-800',
+    text: 'text-red-700',
+    button: 'border-red-300 text-red-700 hover:bg-red-100'
+  },
+  warning: {
+    card: 'border-yellow-200 bg-yellow-50',
+    icon: 'text-yellow-500',
+    title: 'text-yellow-800',
+    text: 'text-yellow-700',
+    button: 'border-yellow-300 text-yellow-700 hover:bg-yellow-100'
+  },
+  muted: {
+    card: 'border-gray-200 bg-gray-50',
+    icon: 'text-gray-400',
+    title: 'text-gray-700',
+    text: 'text-gray-600',
+    button: 'border-gray-300 text-gray-700 hover:bg-gray-100'
+  }
+};
+
+const KIND_CONFIG: Record<AnalysisErrorKind, { title: string; icon: typeof AlertCircle; tone: Tone }> = {
+  'invalid-url': { title: '网址无效', icon: Link2Off, tone: 'warning' },
+  'invalid-input': { title: '内容无效', icon: FileX, tone: 'warning' },
+  network: { title: '无法连接', icon: WifiOff, tone: 'danger' },
+  timeout: { title: '请求超时', icon: Hourglass, tone: 'warning' },
+  cancelled: { title: '已取消', icon: XCircle, tone: 'muted' },
+  client: { title: '请求被拒绝', icon: Lock, tone: 'danger' },
+  server: { title: '服务端错误', icon: ServerCrash, tone: 'danger' },
+  'rate-limit': { title: '请求受限', icon: Clock, tone: 'warning' },
+  'malformed-output': { title: '输出无法解析', icon: FileWarning, tone: 'warning' },
+  'truncated-output': { title: '输出被截断', icon: Scissors, tone: 'warning' },
+  'target-unreachable': { title: '无法读取网页', icon: Ban, tone: 'warning' },
+  storage: { title: '保存失败', icon: HardDrive, tone: 'warning' },
+  unknown: { title: '分析失败', icon: AlertCircle, tone: 'danger' }
+};
+
+// 与端点配置有关的错误显示「端点设置」入口
+const SETTINGS_KINDS: AnalysisErrorKind[] = ['network', 'client', 'server'];
+
+// 限流错误在服务端要求的等待时间结束前不能重试
+const retryAvailableAt = (error: AnalysisError): number =>
+  error instanceof RateLimitError && error.retryAfterMs !== undefined
+    ? error.occurredAt + error.retryAfterMs
+    : 0;
+
+export const ErrorCard: React.FC<ErrorCardProps> = ({
+  error,
+  onRetry,
+  isRetrying = false,
+  onOpenSettings,
+  onDismiss
+}) => {
+  const { title, icon: Icon, tone } = KIND_CONFIG[error.kind];
+  const styles = TONE_STYLES[tone];
+  const availableAt = retryAvailableAt(error);
+  const [now, setNow] = useState(() => Date.now());
+
+  // 等待期间每秒刷新倒计时
+  useEffect(() => {
+    if (availableAt <= Date.now()) return;
+    setNow(Date.now());
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= availableAt) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [availableAt]);
+
+  const waitSeconds = Math.max(0, Math.ceil((availableAt - now) / 1000));
+  const canRetry = error.retry !== 'none' && onRetry !== undefined;
+  const showSettings = onOpenSettings !== undefined && SETTINGS_KINDS.includes(error.kind);
+
+  return (
+    <div className={`card ${styles.card}`}>
+      <div className="flex items-start space-x-3">
+        <Icon className={`w-5 h-5 flex-shrink-0 mt-0.5 ${styles.icon}`} />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between">
+            <h3 className={`text-sm font-medium mb-1 ${styles.title}`}>{title}</h3>
+            {onDismiss && (
+              <button onClick={onDismiss} className="p-1 -mt-1 -mr-1 rounded hover:bg-white/60" title="关闭">
+                <X className={`w-4 h-4 ${styles.icon}`} />
+              </button>
+            )}
+          </div>
+          <p className={`text-sm ${styles.text}`}>{error.message}</p>
+          <p className={`text-xs mt-1 ${styles.text} opacity-80`}>{error.suggestion}</p>
+
+          {error.detail && (
+            <details className="mt-2">
+              <summary className={`text-xs cursor-pointer ${styles.text} opacity-80`}>技术细节</summary>
+              <pre className="mt-1 text-xs text-gray-600 bg-white/70 rounded p-2 whitespace-pre-wrap break-all">
+                {error.detail}
+              </pre>
+            </details>
+          )}
+
+          {(canRetry || showSettings) && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {canRetry && (
+                <button
+                  onClick={onRetry}
+                  disabled={isRetrying || waitSeconds > 0}
+                  className={`inline-flex items-center space-x-1 px-3 py-1 text-xs border rounded-md disabled:opacity-50 disabled:cursor-not-allowed ${styles.button}`}
+                >
+                  <RefreshCw className={`w-3 h-3 ${isRetrying ? 'animate-spin' : ''}`} />
+                  <span>{waitSeconds > 0 ? `${waitSeconds} 秒后可重试` : '重试'}</span>
+                </button>
+              )}
+              {showSettings && (
+                <button
+                  onClick={onOpenSettings}
+                  className={`inline-flex items-center space-x-1 px-3 py-1 text-xs border rounded-md ${styles.button}`}
+                >
+                  <Settings className="w-3 h-3" />
+                  <span>端点设置</span>
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React from 'react';
+import { Loader2, XCircle, Clock, Hash, FileText, ThumbsUp, Scale } from 'lucide-react';
+import { Evaluation, EvaluationRun } from '../types';
+import { PREFERENCE_LABELS, summaryStats } from '../utils/evaluations';
+import { describeAnalysisOptions } from '../utils/analysisOptions';
+import { isHttpUrl } from '../utils/urls';
+
+interface EvaluationViewProps {
+  evaluation: Evaluation;
+  onPreference: (preferred: Evaluation['preferred']) => void;
+  onNoteChange: (note: string) => void;
+}
+
+const RUN_LABELS = ['A', 'B'] as const;
+
+const formatMs = (ms?: number) => (ms === undefined ? '—' : `${(ms / 1000).toFixed(1)}s`);
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between">
+    <span className="text-gray-500">{label}</span>
+    <span className="font-medium text-gray-800">{value}</span>
+  </div>
+);
+
+const RunColumn: React.FC<{ run: EvaluationRun; label: string; isPreferred: boolean }> = ({
+  run,
+  label,
+  isPreferred
+}) => {
+  const stats = run.data && summaryStats(run.data);
+
+  return (
+    <div
+      className={`border rounded-lg p-4 space-y-4 min-w-0 ${
+        isPreferred ? 'border-green-400 ring-1 ring-green-400' : 'border-gray-200'
+      }`}
+    >
+      {/* 端点信息 */}
+      <div className="flex items-start justify-between space-x-2">
+        <div className="min-w-0">
+          <div className="flex items-center space-x-2">
+            <span className="w-6 h-6 rounded-full bg-gray-900 text-white text-xs font-bold flex items-center justify-center flex-shrink-0">
+              {label}
+            </span>
+            <span className="font-medium text-gray-900 truncate">{run.endpoint.name}</span>
+          </div>
+          <div className="text-xs text-gray-500 truncate mt-1" title={run.endpoint.baseUrl}>
+            {run.endpoint.agentId} @ {run.endpoint.baseUrl}
+          </div>
+        </div>
+        {isPreferred && <ThumbsUp className="w-4 h-4 text-green-600 flex-shrink-0" />}
+      </div>
+
+      {/* 耗时与长度统计 */}
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs bg-gray-50 rounded-lg p-3">
+        <Stat
+          label="耗时"
+          value={
+            <span className="flex items-center space-x-1">
+              <Clock className="w-3 h-3" />
+              <span>{formatMs(run.elapsedMs)}</span>
+            </span>
+          }
+        />
+        <Stat label="响应字符" value={run.responseChars ?? '—'} />
+        <Stat label="输入token" value={run.usage?.promptTokens ?? '—'} />
+        <Stat label="输出token" value={run.usage?.completionTokens ?? '—'} />
+        <Stat label="摘要字数" value={stats?.summaryChars ?? '—'} />
+        <Stat label="要点 / 关键词" value={stats ? `${stats.keyPoints} / ${stats.keywords}` : '—'} />
+      </div>
+
+      {/* 结果内容 */}
+      {run.status === 'running' && (
+        <div className="flex items-center justify-center py-10 text-sm text-gray-500 space-x-2">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          <span>分析中...</span>
+        </div>
+      )}
+
+      {run.status === 'failed' && (
+        <div className="flex items-start space-x-2 text-sm text-red-600 bg-red-50 rounded-lg p-3">
+          <XCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span className="break-words">{run.error || '分析失败'}</span>
+        </div>
+      )}
+
+      {run.data && (
+        <div className="space-y-3 text-sm">
+          <h3 className="font-semibold text-gray-900">{run.data.title}</h3>
+          <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">{run.data.summary}</p>
+          {run.data.keyPoints.length > 0 && (
+            <ul className="space-y-1 text-gray-700">
+              {run.data.keyPoints.map((point, index) => (
+                <li key={index} className="flex items-start space-x-2">
+                  <span className="text-primary-600 font-medium flex-shrink-0">{index + 1}.</span>
+                  <span>{point}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {run.data.keywords.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {run.data.keywords.map((keyword) => (
+                <span key={keyword} className="px-2 py-0.5 bg-primary-50 text-primary-700 rounded text-xs">
+                  {keyword}
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="text-xs text-gray-500">
+            高亮 {stats?.highlights ?? 0} 条 · 阅读时间 {run.data.readingTime}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const EvaluationView: React.FC<EvaluationViewProps> = ({
+  evaluation,
+  onPreference,
+  onNoteChange
+}) => {
+  const isFinished = evaluation.runs.every((run) => run.status !== 'running');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-1.5 text-xs text-gray-500">
+        <FileText className="w-3.5 h-3.5" />
+        {/* 对比记录可能从旧版本或导入的数据中载入，非http(s)地址只显示为文本 */}
+        {isHttpUrl(evaluation.url) ? (
+          <a
+            href={evaluation.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary-600 hover:underline truncate max-w-xs"
+          >
+            {evaluation.url}
+          </a>
+        ) : (
+          <span className="truncate max-w-xs">{evaluation.url}</span>
+        )}
+        <span className="px-2 py-0.5 bg-primary-50 text-primary-700 rounded">
+          模板：{evaluation.template.name} v{evaluation.template.version}
+        </span>
+        {describeAnalysisOptions(evaluation.options).map((label) => (
+          <span key={label} className="px-2 py-0.5 bg-gray-100 rounded">
+            {label}
+          </span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {evaluation.runs.map((run, index) => (
+          <RunColumn
+            key={index}
+            run={run}
+            label={RUN_LABELS[index]}
+            isPreferred={evaluation.preferred === index}
+          />
+        ))}
+      </div>
+
+      {/* 偏好标注 */}
+      <div className="border-t border-gray-100 pt-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="flex items-center space-x-1 font-medium text-gray-700">
+            <Scale className="w-4 h-4" />
+            <span>哪个结果更好？</span>
+          </span>
+          {([0, 'tie', 1] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => onPreference(value)}
+              disabled={!isFinished}
+              className={`px-3 py-1.5 rounded-lg border transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                evaluation.preferred === value
+                  ? 'bg-green-50 border-green-400 text-green-700'
+                  : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {PREFERENCE_LABELS[value]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-start space-x-2">
+          <Hash className="w-4 h-4 text-gray-400 mt-2 flex-shrink-0" />
+          <textarea
+            value={evaluation.note || ''}
+            onChange={(e) => onNoteChange(e.target.value)}
+            placeholder="评测备注（可选），例如：B 漏掉了关键数据"
+            rows={2}
+            className="input text-sm resize-none"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileText, Code, Printer } from 'lucide-react';
+import { SummaryData } from '../types';
+import { ExportFormat, exportSummary } from '../utils/exporters';
+
+interface ExportMenuProps {
+  data: SummaryData;
+  // 紧凑模式只显示图标，用于历史记录列表
+  compact?: boolean;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; icon: typeof FileText }[] = [
+  { format: 'markdown', label: 'Markdown (.md)', icon: FileText },
+  { format: 'html', label: 'HTML 网页', icon: Code },
+  { format: 'print', label: '打印 / 另存为PDF', icon: Printer }
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ data, compact = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // 点击菜单外部时关闭
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    if (!exportSummary(data, format)) {
+      alert('无法打开打印窗口，请允许本站点的弹出窗口后重试');
+    }
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      className="relative no-print"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={
+          compact
+            ? 'p-1 hover:bg-gray-200 rounded transition-all duration-200'
+            : 'flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200'
+        }
+        title="导出摘要"
+      >
+        <Download className="w-4 h-4" />
+        {!compact && <span>导出</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-48 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-10 animate-fade-in">
+          {EXPORT_OPTIONS.map(({ format, label, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Icon className="w-4 h-4 text-gray-500" />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
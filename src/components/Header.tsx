@@ -1,29 +1,53 @@
-import React from 'react';
-import { Globe, History, Wifi, WifiOff, RefreshCw } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Globe, History, Wifi, WifiOff, Server, ChevronDown } from 'lucide-react';
+import { ApiStatus } from '../types';
+import { HEALTH_STATUS_LABELS } from '../utils/healthMonitor';
+import { HealthPopover } from './HealthPopover';
 
 interface HeaderProps {
   onShowHistory: () => void;
   hasHistory: boolean;
-  apiStatus: 'online' | 'offline' | 'unknown';
+  apiStatus: ApiStatus;
   onCheckApi: () => void;
+  // 当前使用的服务端点名称
+  endpointName: string;
+  onShowSettings: () => void;
 }
 
 export const Header: React.FC<HeaderProps> = ({ 
   onShowHistory, 
   hasHistory, 
   apiStatus,
-  onCheckApi 
+  onCheckApi,
+  endpointName,
+  onShowSettings
 }) => {
+  const [showHealth, setShowHealth] = useState(false);
+  const healthRef = useRef<HTMLDivElement>(null);
+
+  // 点击弹层外部时关闭
+  useEffect(() => {
+    if (!showHealth) return;
+    const handleClick = (e: MouseEvent) => {
+      if (healthRef.current && !healthRef.current.contains(e.target as Node)) {
+        setShowHealth(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [showHealth]);
+
   const getStatusColor = () => {
-    switch (apiStatus) {
+    switch (apiStatus.status) {
       case 'online': return 'text-green-600';
+      case 'degraded': return 'text-yellow-600';
       case 'offline': return 'text-red-600';
-      default: return 'text-yellow-600';
+      default: return 'text-gray-500';
     }
   };
 
   const getStatusIcon = () => {
-    return apiStatus === 'online' ? <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />;
+    return apiStatus.status === 'offline' ? <WifiOff className="w-4 h-4" /> : <Wifi className="w-4 h-4" />;
   };
 
   return (
@@ -48,26 +72,45 @@ export const Header: React.FC<HeaderProps> = ({
           {/* 右侧操作按钮 */}
           <div className="flex items-center space-x-4">
             {/* API状态指示器 */}
-            <div className="flex items-center space-x-2">
+            <div ref={healthRef} className="relative">
               <button
-                onClick={onCheckApi}
+                onClick={() => setShowHealth(!showHealth)}
                 className={`flex items-center space-x-1 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors duration-200 ${getStatusColor()} hover:bg-gray-100`}
-                title="点击检查API状态"
+                title="查看API健康状况"
               >
                 {getStatusIcon()}
-                <span className="hidden sm:inline">
-                  {apiStatus === 'online' ? '在线' : apiStatus === 'offline' ? '离线' : '检查中'}
-                </span>
-                <RefreshCw className="w-3 h-3 ml-1 hover:animate-spin" />
+                <span className="hidden sm:inline">{HEALTH_STATUS_LABELS[apiStatus.status]}</span>
+                {apiStatus.latency !== undefined && apiStatus.status !== 'offline' && (
+                  <span className="hidden md:inline text-xs font-normal text-gray-500">
+                    {apiStatus.latency}ms
+                  </span>
+                )}
+                <ChevronDown className="w-3 h-3 ml-1" />
               </button>
+              {showHealth && (
+                <HealthPopover
+                  apiStatus={apiStatus}
+                  endpointName={endpointName}
+                  onCheckNow={onCheckApi}
+                />
+              )}
             </div>
 
+            {/* 端点设置按钮 */}
+            <button
+              onClick={onShowSettings}
+              className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+              title="配置服务端点"
+            >
+              <Server className="w-4 h-4" />
+              <span className="hidden sm:inline max-w-[8rem] truncate">{endpointName}</span>
+            </button>
+
             {/* 历史记录按钮 */}
             <button
               onClick={onShowHistory}
-              disabled={!hasHistory}
-              className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-              title={hasHistory ? '查看分析历史' : '暂无历史记录'}
+              className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+              title={hasHistory ? '查看分析历史' : '暂无历史记录，可导入历史文件'}
             >
               <History className="w-4 h-4" />
               <span className="hidden sm:inline">历史记录</span>
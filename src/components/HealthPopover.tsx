@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { ApiStatus, HealthSample } from '../types';
+import {
+  HEALTH_STATUS_LABELS,
+  MAX_HEALTH_SAMPLES,
+  SLOW_LATENCY_MS,
+  latencyStats
+} from '../utils/healthMonitor';
+
+interface HealthPopoverProps {
+  apiStatus: ApiStatus;
+  endpointName: string;
+  onCheckNow: () => void;
+}
+
+const SPARKLINE_WIDTH = 240;
+const SPARKLINE_HEIGHT = 48;
+
+// 延迟走势图：成功的检查连成折线，失败的检查标为红点
+const Sparkline: React.FC<{ samples: HealthSample[] }> = ({ samples }) => {
+  if (samples.length === 0) {
+    return <div className="h-12 flex items-center justify-center text-xs text-gray-400">暂无数据</div>;
+  }
+
+  const maxLatency = Math.max(
+    SLOW_LATENCY_MS,
+    ...samples.map((sample) => sample.latency ?? 0)
+  );
+  const step = SPARKLINE_WIDTH / Math.max(MAX_HEALTH_SAMPLES - 1, 1);
+  // 最新的样本靠右对齐
+  const offset = (MAX_HEALTH_SAMPLES - samples.length) * step;
+  const x = (index: number) => offset + index * step;
+  const y = (latency: number) => SPARKLINE_HEIGHT - 4 - (latency / maxLatency) * (SPARKLINE_HEIGHT - 8);
+  const points = samples
+    .map((sample, index) =>
+      sample.ok && sample.latency !== undefined ? `${x(index)},${y(sample.latency)}` : null
+    )
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <svg
+      width="100%"
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="h-12"
+    >
+      {/* 慢响应阈值线 */}
+      <line
+        x1={0}
+        x2={SPARKLINE_WIDTH}
+        y1={y(SLOW_LATENCY_MS)}
+        y2={y(SLOW_LATENCY_MS)}
+        className="stroke-yellow-300"
+        strokeDasharray="4 3"
+        strokeWidth={1}
+      />
+      <polyline points={points} fill="none" className="stroke-primary-500" strokeWidth={1.5} />
+      {samples.map((sample, index) =>
+        sample.ok ? null : (
+          <circle key={index} cx={x(index)} cy={SPARKLINE_HEIGHT - 4} r={2.5} className="fill-red-500" />
+        )
+      )}
+    </svg>
+  );
+};
+
+const formatTime = (iso?: string) =>
+  iso ? new Date(iso).toLocaleTimeString('zh-CN', { hour12: false }) : '—';
+
+export const HealthPopover: React.FC<HealthPopoverProps> = ({ apiStatus, endpointName, onCheckNow }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const stats = latencyStats(apiStatus.samples);
+  const { samples } = apiStatus;
+  const lastSample = samples[samples.length - 1];
+  const okCount = samples.filter((sample) => sample.ok).length;
+
+  // 刷新下次检查的倒计时
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const secondsUntilNext = apiStatus.nextCheckAt
+    ? Math.max(0, Math.round((new Date(apiStatus.nextCheckAt).getTime() - now) / 1000))
+    : null;
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-lg shadow-lg border border-gray-200 p-4 z-50 text-xs text-gray-600 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-semibold text-gray-900">{endpointName}</div>
+          <div>状态：{HEALTH_STATUS_LABELS[apiStatus.status]}</div>
+        </div>
+        <button
+          onClick={onCheckNow}
+          className="flex items-center space-x-1 px-2 py-1 rounded hover:bg-gray-100 text-primary-600"
+        >
+          <RefreshCw className="w-3 h-3" />
+          <span>立即检查</span>
+        </button>
+      </div>
+
+      <Sparkline samples={samples} />
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+        <span>最近延迟</span>
+        <span className="text-right text-gray-900">
+          {apiStatus.latency !== undefined ? `${apiStatus.latency} ms` : '—'}
+        </span>
+        <span>平均 / P95</span>
+        <span className="text-right text-gray-900">
+          {stats ? `${stats.average} / ${stats.p95} ms` : '—'}
+        </span>
+        <span>成功率</span>
+        <span className="text-right text-gray-900">
+          {samples.length > 0
+            ? `${Math.round((okCount / samples.length) * 100)}%（${samples.length} 次）`
+            : '—'}
+        </span>
+        <span>上次检查</span>
+        <span className="text-right text-gray-900">{formatTime(apiStatus.lastChecked)}</span>
+        <span>下次检查</span>
+        <span className="text-right text-gray-900">
+          {secondsUntilNext === null ? '—' : `${secondsUntilNext} 秒后`}
+        </span>
+      </div>
+
+      {apiStatus.consecutiveFailures > 0 && (
+        <div className="text-red-600 bg-red-50 rounded px-2 py-1.5">
+          连续失败 {apiStatus.consecutiveFailures} 次
+          {lastSample?.error && `：${lastSample.error}`}，检查间隔已自动延长
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,18 @@
 import React, { useState } from 'react';
-import { Highlighter, Quote, TrendingUp, Target, Filter, Copy, Check } from 'lucide-react';
+import { Highlighter, Quote, TrendingUp, Target, Filter, Copy, Check, LocateFixed, Plus, Pencil, Trash2, Bot, User, StickyNote } from 'lucide-react';
 import { HighlightItem } from '../types';
+import { HighlightPatch } from '../utils/annotations';
 
 interface HighlightViewProps {
   highlights: HighlightItem[];
+  // 提供时点击卡片可在原文中定位该高亮
+  onLocate?: (id: string) => void;
+  // 以下回调提供时允许用户添加、编辑和删除高亮
+  onAddHighlight?: (text: string, type: HighlightItem['type'], note?: string) => void;
+  onUpdateHighlight?: (id: string, patch: HighlightPatch) => void;
+  onRemoveHighlight?: (id: string) => void;
+  // 流式分析中，高亮逐条出现
+  isStreaming?: boolean;
 }
 
 const HIGHLIGHT_TYPES = {
@@ -33,9 +42,91 @@ const HIGHLIGHT_TYPES = {
   }
 } as const;
 
-export const HighlightView: React.FC<HighlightViewProps> = ({ highlights }) => {
+interface HighlightEditorProps {
+  initial?: Pick<HighlightItem, 'text' | 'type' | 'note'>;
+  submitLabel: string;
+  onSubmit: (text: string, type: HighlightItem['type'], note: string) => void;
+  onCancel: () => void;
+}
+
+const HighlightEditor: React.FC<HighlightEditorProps> = ({
+  initial,
+  submitLabel,
+  onSubmit,
+  onCancel
+}) => {
+  const [text, setText] = useState(initial?.text || '');
+  const [type, setType] = useState<HighlightItem['type']>(initial?.type || 'important');
+  const [note, setNote] = useState(initial?.note || '');
+
+  return (
+    <form
+      className="space-y-3"
+      onClick={(e) => e.stopPropagation()}
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (text.trim()) onSubmit(text, type, note);
+      }}
+    >
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="高亮文本（可从原文中复制）"
+        rows={3}
+        className="input text-sm text-gray-900"
+        autoFocus
+      />
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(HIGHLIGHT_TYPES) as HighlightItem['type'][]).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setType(value)}
+            className={`px-3 py-1 rounded-lg text-xs font-medium border transition-colors duration-200 ${
+              type === value
+                ? HIGHLIGHT_TYPES[value].color
+                : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            {HIGHLIGHT_TYPES[value].label}
+          </button>
+        ))}
+      </div>
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="批注（可选）"
+        className="input text-sm text-gray-900"
+      />
+      <div className="flex justify-end space-x-2">
+        <button type="button" onClick={onCancel} className="btn-secondary text-sm">
+          取消
+        </button>
+        <button
+          type="submit"
+          disabled={!text.trim()}
+          className="btn-primary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export const HighlightView: React.FC<HighlightViewProps> = ({
+  highlights,
+  onLocate,
+  onAddHighlight,
+  onUpdateHighlight,
+  onRemoveHighlight,
+  isStreaming = false
+}) => {
   const [selectedType, setSelectedType] = useState<string>('all');
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   const filteredHighlights = selectedType === 'all' 
     ? highlights 
@@ -56,14 +147,45 @@ export const HighlightView: React.FC<HighlightViewProps> = ({ highlights }) => {
     }
   };
 
+  const addForm = isAdding && onAddHighlight && (
+    <div className="mb-6 p-4 rounded-lg border border-dashed border-gray-300 text-left">
+      <HighlightEditor
+        submitLabel="添加高亮"
+        onSubmit={(text, type, note) => {
+          onAddHighlight(text, type, note);
+          setIsAdding(false);
+        }}
+        onCancel={() => setIsAdding(false)}
+      />
+    </div>
+  );
+
+  const addButton = onAddHighlight && !isAdding && (
+    <button
+      onClick={() => setIsAdding(true)}
+      className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+    >
+      <Plus className="w-4 h-4" />
+      <span>添加高亮</span>
+    </button>
+  );
+
   if (!highlights.length) {
     return (
       <div className="card text-center py-12">
         <Highlighter className="w-12 h-12 text-gray-300 mx-auto mb-4" />
-        <h3 className="text-lg font-medium text-gray-500 mb-2">暂无高亮内容</h3>
+        <h3 className="text-lg font-medium text-gray-500 mb-2">
+          {isStreaming ? '正在生成高亮...' : '暂无高亮内容'}
+        </h3>
         <p className="text-sm text-gray-400">
-          AI分析完成后，重要的文本片段将在这里显示
+          {isStreaming ? '高亮片段生成后将逐条显示在这里' : 'AI分析完成后，重要的文本片段将在这里显示'}
         </p>
+        {(addButton || addForm) && (
+          <div className="mt-6 flex flex-col items-center">
+            {addButton}
+            {addForm && <div className="w-full">{addForm}</div>}
+          </div>
+        )}
       </div>
     );
   }
@@ -79,8 +201,11 @@ export const HighlightView: React.FC<HighlightViewProps> = ({ highlights }) => {
               ({filteredHighlights.length} 项)
             </span>
           </h2>
+          {addButton}
         </div>
 
+        {addForm}
+
         {/* 类型过滤器 */}
         <div className="flex flex-wrap gap-2 mb-6">
           <button
@@ -132,11 +257,32 @@ export const HighlightView: React.FC<HighlightViewProps> = ({ highlights }) => {
           {filteredHighlights.map((highlight) => {
             const config = HIGHLIGHT_TYPES[highlight.type];
             const Icon = config.icon;
+            const isUserAuthored = highlight.author === 'user';
+
+            if (editingId === highlight.id && onUpdateHighlight) {
+              return (
+                <div key={highlight.id} className={`p-4 rounded-lg border ${config.color}`}>
+                  <HighlightEditor
+                    initial={highlight}
+                    submitLabel="保存"
+                    onSubmit={(text, type, note) => {
+                      onUpdateHighlight(highlight.id, { text, type, note });
+                      setEditingId(null);
+                    }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                </div>
+              );
+            }
 
             return (
               <div
                 key={highlight.id}
-                className={`p-4 rounded-lg border ${config.color} hover:shadow-sm transition-shadow duration-200`}
+                onClick={onLocate ? () => onLocate(highlight.id) : undefined}
+                className={`p-4 rounded-lg border ${config.color} hover:shadow-sm transition-shadow duration-200 ${
+                  onLocate ? 'cursor-pointer' : ''
+                } ${isStreaming ? 'animate-fade-in' : ''}`}
+                title={onLocate ? '点击在原文中定位' : undefined}
               >
                 <div className="flex items-start justify-between mb-2">
                   <div className="flex items-center space-x-2">
@@ -144,18 +290,56 @@ export const HighlightView: React.FC<HighlightViewProps> = ({ highlights }) => {
                     <span className="text-xs font-medium uppercase tracking-wide">
                       {config.label}
                     </span>
+                    {/* 区分用户添加与AI生成的高亮 */}
+                    <span
+                      className="flex items-center space-x-1 px-1.5 py-0.5 rounded bg-white/60 text-gray-700 text-xs"
+                      title={isUserAuthored ? '用户添加' : highlight.editedByUser ? 'AI生成，已被用户修改' : 'AI生成'}
+                    >
+                      {isUserAuthored ? <User className="w-3 h-3" /> : <Bot className="w-3 h-3" />}
+                      <span>{isUserAuthored ? '我的' : highlight.editedByUser ? 'AI · 已编辑' : 'AI'}</span>
+                    </span>
+                    {onLocate && <LocateFixed className="w-3.5 h-3.5 opacity-50" />}
                   </div>
-                  <button
-                    onClick={() => copyToClipboard(highlight.text, highlight.id)}
-                    className="p-1 text-gray-400 hover:text-gray-600 rounded transition-colors duration-200"
-                    title="复制文本"
-                  >
-                    {copiedId === highlight.id ? (
-                      <Check className="w-4 h-4 text-green-500" />
-                    ) : (
-                      <Copy className="w-4 h-4" />
+                  <div className="flex items-center">
+                    {onUpdateHighlight && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setEditingId(highlight.id);
+                        }}
+                        className="p-1 text-gray-400 hover:text-gray-600 rounded transition-colors duration-200"
+                        title="编辑高亮"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
                     )}
-                  </button>
+                    {onRemoveHighlight && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRemoveHighlight(highlight.id);
+                        }}
+                        className="p-1 text-gray-400 hover:text-red-600 rounded transition-colors duration-200"
+                        title="删除高亮"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        copyToClipboard(highlight.text, highlight.id);
+                      }}
+                      className="p-1 text-gray-400 hover:text-gray-600 rounded transition-colors duration-200"
+                      title="复制文本"
+                    >
+                      {copiedId === highlight.id ? (
+                        <Check className="w-4 h-4 text-green-500" />
+                      ) : (
+                        <Copy className="w-4 h-4" />
+                      )}
+                    </button>
+                  </div>
                 </div>
 
                 <blockquote className="text-gray-800 leading-relaxed mb-3 pl-4 border-l-2 border-current">
@@ -168,6 +352,16 @@ export const HighlightView: React.FC<HighlightViewProps> = ({ highlights }) => {
                     {highlight.context}
                   </div>
                 )}
+
+                {highlight.note && (
+                  <div className="flex items-start space-x-1 mt-2 text-xs text-gray-700 bg-white/70 rounded px-2 py-1">
+                    <StickyNote className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                    <span>
+                      <span className="font-medium">批注：</span>
+                      {highlight.note}
+                    </span>
+                  </div>
+                )}
               </div>
             );
           })}
@@ -1,6 +1,12 @@
-import React, { useState } from 'react';
-import { History, Trash2, Search, X, Calendar, ExternalLink } from 'lucide-react';
-import { AnalysisHistory } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { History, Trash2, Search, X, Calendar, ExternalLink, FileText, Upload, Download, Layers, ChevronDown, ChevronUp, GitCompare, Server } from 'lucide-react';
+import { AnalysisHistory, HistoryGroup, ImportPreview, ImportReport, ImportStrategy } from '../types';
+import { storage } from '../utils/storage';
+import { SearchResult, highlightMatches } from '../utils/searchIndex';
+import { downloadFile } from '../utils/exporters';
+import { groupByUrl, getVersionNumber } from '../utils/historyVersions';
+import { ExportMenu } from './ExportMenu';
+import { ImportDialog } from './ImportDialog';
 
 interface HistoryPanelProps {
   isOpen: boolean;
@@ -9,6 +15,11 @@ interface HistoryPanelProps {
   onLoadItem: (item: AnalysisHistory) => void;
   onDeleteItem: (id: string) => void;
   onClearAll: () => void;
+  onImported: () => void;
+  // 参数按创建时间排序：先旧后新
+  onCompare: (base: AnalysisHistory, target: AnalysisHistory) => void;
+  // 离线队列中等待分析的请求，显示在列表顶部
+  pendingQueue?: React.ReactNode;
 }
 
 export const HistoryPanel: React.FC<HistoryPanelProps> = ({
@@ -17,17 +28,165 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
   history,
   onLoadItem,
   onDeleteItem,
-  onClearAll
+  onClearAll,
+  onImported,
+  onCompare,
+  pendingQueue
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [importState, setImportState] = useState<{
+    fileName: string;
+    content: string;
+    preview: ImportPreview;
+  } | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [expandedUrl, setExpandedUrl] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // 历史记录变化后重新搜索，保证结果与索引同步
+  useEffect(() => {
+    if (!isOpen || !searchQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    storage.searchHistory(searchQuery).then(results => {
+      if (!cancelled) setSearchResults(results);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, searchQuery, history]);
 
   if (!isOpen) return null;
 
-  const filteredHistory = history.filter(item => 
-    item.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    item.url.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    item.summary.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const handleExport = async () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(
+      await storage.exportHistory(),
+      `web-summarizer-history-${date}.json`,
+      'application/json'
+    );
+  };
+
+  const handleFileSelected = async (file: File) => {
+    setImportError(null);
+    try {
+      const content = await file.text();
+      const preview = await storage.previewImport(content);
+      setImportReport(null);
+      setImportState({ fileName: file.name, content, preview });
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : '读取导入文件失败');
+    }
+  };
+
+  const handleImport = async (strategy: ImportStrategy) => {
+    if (!importState) return;
+    setIsImporting(true);
+    try {
+      setImportReport(await storage.importHistory(importState.content, strategy));
+      onImported();
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : '导入失败');
+      setImportState(null);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const closeImport = () => {
+    setImportState(null);
+    setImportReport(null);
+  };
+
+  const exitCompareMode = () => {
+    setCompareMode(false);
+    setSelectedIds([]);
+  };
+
+  // 对比模式下点击用于选择记录，最多保留最近选择的两条
+  const handleSelect = (item: AnalysisHistory) => {
+    if (!compareMode) {
+      onLoadItem(item);
+      onClose();
+      return;
+    }
+    setSelectedIds(prev =>
+      prev.includes(item.id) ? prev.filter(id => id !== item.id) : [...prev, item.id].slice(-2)
+    );
+  };
+
+  const isSearching = searchQuery.trim().length > 0;
+  const historyById = new Map(history.map(item => [item.id, item]));
+  const groups = groupByUrl(history);
+  const groupByUrlMap = new Map(groups.map(group => [group.url, group]));
+
+  // 搜索时每个URL只显示相关度最高的版本，按该版本的得分排序
+  const entries: { group: HistoryGroup; item: AnalysisHistory; terms: string[] }[] = [];
+  if (isSearching) {
+    const seen = new Set<string>();
+    searchResults.forEach(result => {
+      const item = historyById.get(result.id);
+      if (!item || seen.has(item.url)) return;
+      seen.add(item.url);
+      entries.push({ group: groupByUrlMap.get(item.url)!, item, terms: result.matchedTerms });
+    });
+  } else {
+    groups.forEach(group => entries.push({ group, item: group.latest, terms: [] }));
+  }
+
+  const selectedItems = selectedIds
+    .map(id => historyById.get(id))
+    .filter((item): item is AnalysisHistory => Boolean(item));
+
+  const handleStartCompare = () => {
+    if (selectedItems.length !== 2) return;
+    const [base, target] = [...selectedItems].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    onCompare(base, target);
+    exitCompareMode();
+    onClose();
+  };
+
+  const formatHostname = (url: string) => {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return url;
+    }
+  };
+
+  const renderHighlighted = (text: string, terms: string[]) =>
+    highlightMatches(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-yellow-200 text-inherit rounded px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    );
+
+  // 标题和摘要未命中时，从关键词、要点或高亮中找出命中的片段
+  const findMatchSnippet = (item: AnalysisHistory, terms: string[]) => {
+    const contains = (text: string) =>
+      terms.some(term => text.toLowerCase().includes(term));
+    if (terms.length === 0 || contains(item.title) || contains(item.summary)) {
+      return null;
+    }
+    const candidates = [
+      ...(item.data?.keywords || []),
+      ...(item.data?.keyPoints || []),
+      ...(item.data?.highlights || []).map(h => h.text)
+    ];
+    return candidates.find(contains) || null;
+  };
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -85,24 +244,93 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
               />
             </div>
             
-            {/* 统计和清空 */}
+            {/* 统计、导入导出和清空 */}
             <div className="flex items-center justify-between mt-4 text-sm text-gray-500">
               <span>共 {history.length} 条记录</span>
-              {history.length > 0 && (
+              <div className="flex items-center space-x-3">
                 <button
-                  onClick={onClearAll}
-                  className="text-red-600 hover:text-red-700 font-medium"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex items-center space-x-1 text-gray-600 hover:text-gray-900 font-medium"
                 >
-                  清空全部
+                  <Upload className="w-3.5 h-3.5" />
+                  <span>导入</span>
                 </button>
-              )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFileSelected(file);
+                    e.target.value = '';
+                  }}
+                />
+                {history.length > 1 && (
+                  <button
+                    onClick={() => (compareMode ? exitCompareMode() : setCompareMode(true))}
+                    className={`flex items-center space-x-1 font-medium ${
+                      compareMode ? 'text-primary-600 hover:text-primary-700' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <GitCompare className="w-3.5 h-3.5" />
+                    <span>对比</span>
+                  </button>
+                )}
+                {history.length > 0 && (
+                  <>
+                    <button
+                      onClick={handleExport}
+                      className="flex items-center space-x-1 text-gray-600 hover:text-gray-900 font-medium"
+                    >
+                      <Download className="w-3.5 h-3.5" />
+                      <span>导出</span>
+                    </button>
+                    <button
+                      onClick={onClearAll}
+                      className="text-red-600 hover:text-red-700 font-medium"
+                    >
+                      清空全部
+                    </button>
+                  </>
+                )}
+              </div>
             </div>
+
+            {compareMode && (
+              <div className="mt-3 flex items-center justify-between text-xs bg-primary-50 text-primary-700 rounded px-3 py-2">
+                <span>选择两条记录进行对比（已选 {selectedItems.length}/2）</span>
+                <div className="flex items-center space-x-3">
+                  <button onClick={exitCompareMode} className="hover:text-primary-900">
+                    取消
+                  </button>
+                  <button
+                    onClick={handleStartCompare}
+                    disabled={selectedItems.length !== 2}
+                    className="font-medium hover:text-primary-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    开始对比
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {importError && (
+              <div className="mt-3 text-xs text-red-600 bg-red-50 rounded px-3 py-2">
+                导入失败：{importError}
+              </div>
+            )}
           </div>
           
           {/* 历史列表 */}
           <div className="flex-1 overflow-y-auto">
-            {filteredHistory.length === 0 ? (
-              <div className="flex flex-col items-center justify-center h-full text-gray-500">
+            {pendingQueue && <div className="px-4 pt-4">{pendingQueue}</div>}
+            {entries.length === 0 ? (
+              <div
+                className={`flex flex-col items-center justify-center text-gray-500 ${
+                  pendingQueue ? 'py-16' : 'h-full'
+                }`}
+              >
                 <History className="w-12 h-12 mb-4 opacity-50" />
                 <p className="text-lg font-medium mb-2">
                   {history.length === 0 ? '暂无历史记录' : '未找到匹配结果'}
@@ -113,52 +341,162 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
               </div>
             ) : (
               <div className="p-4 space-y-3">
-                {filteredHistory.map((item) => (
-                  <div
-                    key={item.id}
-                    className="bg-gray-50 rounded-lg p-4 border border-gray-200 hover:border-primary-300 hover:bg-primary-50 transition-all duration-200 cursor-pointer group"
-                    onClick={() => {
-                      onLoadItem(item);
-                      onClose();
-                    }}
-                  >
-                    <div className="flex items-start justify-between mb-3">
-                      <h3 className="font-medium text-gray-900 text-sm line-clamp-2 group-hover:text-primary-700">
-                        {item.title}
-                      </h3>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onDeleteItem(item.id);
-                        }}
-                        className="opacity-0 group-hover:opacity-100 p-1 hover:bg-red-100 rounded transition-all duration-200"
-                      >
-                        <Trash2 className="w-4 h-4 text-red-500" />
-                      </button>
-                    </div>
+                {entries.map(({ group, item, terms }) => {
+                  const snippet = findMatchSnippet(item, terms);
+                  const isExpanded = expandedUrl === group.url;
+                  const isSelected = selectedIds.includes(item.id);
+                  return (
+                    <div
+                      key={item.id}
+                      className={`rounded-lg p-4 border hover:border-primary-300 hover:bg-primary-50 transition-all duration-200 cursor-pointer group ${
+                        isSelected ? 'border-primary-500 bg-primary-50' : 'bg-gray-50 border-gray-200'
+                      }`}
+                      onClick={() => handleSelect(item)}
+                    >
+                      <div className="flex items-start justify-between mb-3">
+                        <h3 className="font-medium text-gray-900 text-sm line-clamp-2 group-hover:text-primary-700">
+                          {renderHighlighted(item.title, terms)}
+                        </h3>
+                        <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                          <ExportMenu data={item.data} compact />
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onDeleteItem(item.id);
+                            }}
+                            className="p-1 hover:bg-red-100 rounded transition-all duration-200"
+                          >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                          </button>
+                        </div>
+                      </div>
                     
-                    <p className="text-gray-600 text-sm mb-3 line-clamp-2">
-                      {item.summary}
-                    </p>
+                      <p className="text-gray-600 text-sm mb-3 line-clamp-2">
+                        {renderHighlighted(item.summary, terms)}
+                      </p>
+
+                      {snippet && (
+                        <p className="text-xs text-gray-500 mb-3 line-clamp-1">
+                          <span className="font-medium">匹配：</span>
+                          {renderHighlighted(snippet, terms)}
+                        </p>
+                      )}
                     
-                    <div className="flex items-center justify-between text-xs text-gray-500">
-                      <div className="flex items-center space-x-1">
-                        <ExternalLink className="w-3 h-3" />
-                        <span className="truncate max-w-40">
-                          {new URL(item.url).hostname}
-                        </span>
-                      </div>
-                      <div className="flex items-center space-x-1">
-                        <Calendar className="w-3 h-3" />
-                        <span>{formatDate(item.createdAt)}</span>
+                      <div className="flex items-center justify-between text-xs text-gray-500">
+                        <div className="flex items-center space-x-1 min-w-0">
+                          {item.data.sourceId ? (
+                            <>
+                              <FileText className="w-3 h-3 flex-shrink-0" />
+                              <span className="truncate max-w-40">
+                                {item.data.sourceName || '文本内容'}
+                              </span>
+                            </>
+                          ) : (
+                            <>
+                              <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                              <span className="truncate max-w-40">
+                                {formatHostname(item.url)}
+                              </span>
+                            </>
+                          )}
+                          {item.data.endpoint && (
+                            <span
+                              className="flex items-center space-x-1 truncate"
+                              title={`${item.data.endpoint.baseUrl} · ${item.data.endpoint.agentId}`}
+                            >
+                              <Server className="w-3 h-3 flex-shrink-0 ml-1" />
+                              <span className="truncate">
+                                {item.data.endpoint.name}/{item.data.endpoint.agentId}
+                              </span>
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          {group.versions.length > 1 && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setExpandedUrl(isExpanded ? null : group.url);
+                              }}
+                              className="flex items-center space-x-1 text-primary-600 hover:text-primary-700"
+                              title="查看该页面的所有版本"
+                            >
+                              <Layers className="w-3 h-3" />
+                              <span>{group.versions.length} 个版本</span>
+                              {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                            </button>
+                          )}
+                          <div className="flex items-center space-x-1">
+                            <Calendar className="w-3 h-3" />
+                            <span>{formatDate(item.createdAt)}</span>
+                          </div>
+                        </div>
                       </div>
+
+                      {/* 版本列表 */}
+                      {isExpanded && (
+                        <ul className="mt-3 pt-3 border-t border-gray-200 space-y-1">
+                          {group.versions.map(version => (
+                            <li
+                              key={version.id}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleSelect(version);
+                              }}
+                              className={`flex items-center justify-between px-2 py-1.5 rounded text-xs hover:bg-white ${
+                                version.id === item.id ? 'text-primary-700 font-medium' : 'text-gray-600'
+                              } ${selectedIds.includes(version.id) ? 'bg-white ring-1 ring-primary-400' : ''}`}
+                            >
+                              <span className="flex items-center space-x-2 min-w-0">
+                                <span className="flex-shrink-0 px-1.5 py-0.5 bg-gray-200 text-gray-700 rounded">
+                                  v{getVersionNumber(group, version)}
+                                </span>
+                                <span className="truncate">{version.title}</span>
+                              </span>
+                              <span className="flex items-center space-x-2 flex-shrink-0">
+                                {version.data.endpoint && (
+                                  <span
+                                    className="text-gray-400"
+                                    title={`${version.data.endpoint.baseUrl} · ${version.data.endpoint.agentId}`}
+                                  >
+                                    {version.data.endpoint.name}
+                                  </span>
+                                )}
+                                <span>{formatDate(version.createdAt)}</span>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    onDeleteItem(version.id);
+                                  }}
+                                  className="p-0.5 hover:bg-red-100 rounded"
+                                  title="删除此版本"
+                                >
+                                  <Trash2 className="w-3 h-3 text-red-500" />
+                                </button>
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
         </div>
+
+        {/* 导入预览与报告 */}
+        {importState && (
+          <ImportDialog
+            fileName={importState.fileName}
+            preview={importState.preview}
+            report={importReport}
+            isImporting={isImporting}
+            onConfirm={handleImport}
+            onClose={closeImport}
+          />
+        )}
       </div>
     </div>
   );
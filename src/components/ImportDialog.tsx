@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Upload, X, CheckCircle, AlertTriangle, Loader2 } from 'lucide-react';
+import { ImportPreview, ImportReport, ImportStrategy, ImportIssue } from '../types';
+
+interface ImportDialogProps {
+  fileName: string;
+  preview: ImportPreview;
+  report: ImportReport | null;
+  isImporting: boolean;
+  onConfirm: (strategy: ImportStrategy) => void;
+  onClose: () => void;
+}
+
+const STRATEGIES: { value: ImportStrategy; label: string; description: string }[] = [
+  { value: 'keep-newest', label: '保留最新', description: '同一URL保留最新记录所在一方的全部版本' },
+  { value: 'keep-existing', label: '保留现有', description: '已存在的URL跳过导入，不合并版本' },
+  { value: 'keep-both', label: '全部保留', description: '同一URL的记录作为不同版本共存' }
+];
+
+const PREVIEW_LIMIT = 5;
+
+const IssueList: React.FC<{ title: string; issues: ImportIssue[]; className: string }> = ({
+  title,
+  issues,
+  className
+}) => {
+  if (issues.length === 0) return null;
+  return (
+    <div className={`rounded-lg p-3 text-xs ${className}`}>
+      <div className="font-medium mb-1">
+        {title}（{issues.length}）
+      </div>
+      <ul className="space-y-0.5 max-h-24 overflow-y-auto">
+        {issues.map((issue) => (
+          <li key={`${issue.index}-${issue.reason}`} className="truncate">
+            第 {issue.index + 1} 条{issue.url ? ` · ${issue.url}` : ''}：{issue.reason}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({
+  fileName,
+  preview,
+  report,
+  isImporting,
+  onConfirm,
+  onClose
+}) => {
+  const [strategy, setStrategy] = useState<ImportStrategy>('keep-newest');
+
+  return (
+    <div className="absolute inset-0 z-10 bg-white flex flex-col animate-fade-in">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center space-x-2 min-w-0">
+          <Upload className="w-5 h-5 text-gray-600 flex-shrink-0" />
+          <h3 className="text-lg font-bold text-gray-900 truncate">导入 {fileName}</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+        >
+          <X className="w-5 h-5 text-gray-500" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {report ? (
+          /* 导入报告 */
+          <>
+            <div className="flex items-center space-x-2 text-green-700">
+              <CheckCircle className="w-5 h-5" />
+              <span className="font-medium">导入完成</span>
+            </div>
+            <div className="grid grid-cols-3 gap-3 text-center text-sm">
+              <div className="bg-green-50 rounded-lg p-3">
+                <div className="text-2xl font-bold text-green-600">{report.accepted}</div>
+                <div className="text-gray-600">已导入</div>
+              </div>
+              <div className="bg-yellow-50 rounded-lg p-3">
+                <div className="text-2xl font-bold text-yellow-600">{report.deduplicated.length}</div>
+                <div className="text-gray-600">已去重</div>
+              </div>
+              <div className="bg-red-50 rounded-lg p-3">
+                <div className="text-2xl font-bold text-red-600">{report.rejected.length}</div>
+                <div className="text-gray-600">已拒绝</div>
+              </div>
+            </div>
+            <IssueList title="去重" issues={report.deduplicated} className="bg-yellow-50 text-yellow-800" />
+            <IssueList title="拒绝" issues={report.rejected} className="bg-red-50 text-red-800" />
+          </>
+        ) : (
+          /* 导入预览 */
+          <>
+            <div className="text-sm text-gray-600">
+              文件共 {preview.total} 条记录，其中 {preview.valid.length} 条有效
+              {preview.conflicts > 0 && `，${preview.conflicts} 条与现有记录的URL相同`}
+            </div>
+
+            {preview.valid.length > 0 && (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg text-sm">
+                {preview.valid.slice(0, PREVIEW_LIMIT).map((item) => (
+                  <li key={item.id} className="px-3 py-2">
+                    <div className="truncate text-gray-900">{item.title}</div>
+                    <div className="truncate text-xs text-gray-500">{item.url}</div>
+                  </li>
+                ))}
+                {preview.valid.length > PREVIEW_LIMIT && (
+                  <li className="px-3 py-2 text-xs text-gray-500">
+                    还有 {preview.valid.length - PREVIEW_LIMIT} 条...
+                  </li>
+                )}
+              </ul>
+            )}
+
+            <IssueList title="无法导入" issues={preview.rejected} className="bg-red-50 text-red-800" />
+
+            {preview.valid.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium text-gray-700">同URL记录的合并方式</div>
+                {STRATEGIES.map((option) => (
+                  <label
+                    key={option.value}
+                    className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer transition-colors duration-200 ${
+                      strategy === option.value
+                        ? 'border-primary-500 bg-primary-50'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="import-strategy"
+                      value={option.value}
+                      checked={strategy === option.value}
+                      onChange={() => setStrategy(option.value)}
+                      className="mt-1"
+                    />
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">{option.label}</div>
+                      <div className="text-xs text-gray-500">{option.description}</div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {preview.valid.length === 0 && (
+              <div className="flex items-center space-x-2 text-sm text-red-600">
+                <AlertTriangle className="w-4 h-4" />
+                <span>没有可导入的有效记录</span>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="p-6 border-t border-gray-200 flex justify-end space-x-3">
+        {report ? (
+          <button onClick={onClose} className="btn-primary">完成</button>
+        ) : (
+          <>
+            <button onClick={onClose} className="btn-secondary">取消</button>
+            <button
+              onClick={() => onConfirm(strategy)}
+              disabled={preview.valid.length === 0 || isImporting}
+              className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>导入 {preview.valid.length} 条</span>
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, X, RotateCcw, Clock, Loader2, XCircle, CloudOff } from 'lucide-react';
+import { PendingAnalysis } from '../types';
+
+interface PendingQueueListProps {
+  queue: PendingAnalysis[];
+  isOnline: boolean;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onRemove: (id: string) => void;
+  onRetry: (id: string) => void;
+}
+
+const STATUS_CONFIG = {
+  pending: { label: '待分析', icon: Clock, color: 'text-gray-500' },
+  running: { label: '分析中', icon: Loader2, color: 'text-primary-600' },
+  failed: { label: '失败', icon: XCircle, color: 'text-red-600' }
+} as const;
+
+export const PendingQueueList: React.FC<PendingQueueListProps> = ({
+  queue,
+  isOnline,
+  onMove,
+  onRemove,
+  onRetry
+}) => (
+  <div className="border border-dashed border-gray-300 rounded-lg p-3 space-y-2">
+    <div className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+      <CloudOff className="w-4 h-4" />
+      <span>离线队列（{queue.length}）</span>
+    </div>
+    <p className="text-xs text-gray-500">
+      {isOnline ? '服务已恢复，正在按顺序分析...' : '服务恢复在线后将按顺序自动分析'}
+    </p>
+
+    <ul className="space-y-1">
+      {queue.map((item, index) => {
+        const { label, icon: Icon, color } = STATUS_CONFIG[item.status];
+        return (
+          <li key={item.id} className="flex items-center justify-between bg-white rounded px-2 py-1.5 text-xs">
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-gray-800" title={item.url}>
+                {item.url}
+              </div>
+              <div className={`flex items-center space-x-1 ${color}`}>
+                <Icon className={`w-3 h-3 ${item.status === 'running' ? 'animate-spin' : ''}`} />
+                <span className="truncate">{item.error ? `${label}：${item.error}` : label}</span>
+              </div>
+            </div>
+            <div className="flex items-center flex-shrink-0 ml-2">
+              {item.status === 'failed' && (
+                <button onClick={() => onRetry(item.id)} className="p-1 hover:bg-gray-100 rounded" title="重试">
+                  <RotateCcw className="w-3 h-3 text-gray-500" />
+                </button>
+              )}
+              <button
+                onClick={() => onMove(item.id, -1)}
+                disabled={index === 0}
+                className="p-1 hover:bg-gray-100 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+                title="上移"
+              >
+                <ArrowUp className="w-3 h-3 text-gray-500" />
+              </button>
+              <button
+                onClick={() => onMove(item.id, 1)}
+                disabled={index === queue.length - 1}
+                className="p-1 hover:bg-gray-100 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+                title="下移"
+              >
+                <ArrowDown className="w-3 h-3 text-gray-500" />
+              </button>
+              <button onClick={() => onRemove(item.id)} className="p-1 hover:bg-red-100 rounded" title="移出队列">
+                <X className="w-3 h-3 text-red-500" />
+              </button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
@@ -0,0 +1,90 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { BookOpen, AlertTriangle } from 'lucide-react';
+import { HighlightItem } from '../types';
+import { mapHighlights } from '../utils/highlightMapper';
+
+interface SourceReaderProps {
+  sourceText: string;
+  highlights: HighlightItem[];
+  // 每次点击高亮卡片都会生成新的nonce，重复点击同一条也能再次定位
+  focusRequest?: { id: string; nonce: number } | null;
+}
+
+const MARK_COLORS: Record<HighlightItem['type'], string> = {
+  important: 'bg-red-100 text-red-900 border-b-2 border-red-300',
+  quote: 'bg-blue-100 text-blue-900 border-b-2 border-blue-300',
+  statistic: 'bg-green-100 text-green-900 border-b-2 border-green-300',
+  conclusion: 'bg-purple-100 text-purple-900 border-b-2 border-purple-300'
+};
+
+const FLASH_CLASS = 'highlight-flash';
+
+export const SourceReader: React.FC<SourceReaderProps> = ({
+  sourceText,
+  highlights,
+  focusRequest
+}) => {
+  const markRefs = useRef(new Map<string, HTMLElement>());
+  const { segments, mapped, unmatched } = useMemo(
+    () => mapHighlights(sourceText, highlights),
+    [sourceText, highlights]
+  );
+  const fuzzyCount = mapped.filter((item) => item.method === 'fuzzy').length;
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    const mark = markRefs.current.get(focusRequest.id);
+    if (!mark) return;
+
+    mark.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    // 移除后强制重排，保证动画重新播放
+    mark.classList.remove(FLASH_CLASS);
+    void mark.offsetWidth;
+    mark.classList.add(FLASH_CLASS);
+  }, [focusRequest]);
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <BookOpen className="w-5 h-5 text-gray-600" />
+          <span>原文</span>
+          <span className="text-sm font-normal text-gray-500">
+            ({mapped.length}/{highlights.length} 处高亮已定位)
+          </span>
+        </h2>
+      </div>
+
+      {(unmatched.length > 0 || fuzzyCount > 0) && (
+        <div className="flex items-start space-x-2 mb-4 text-xs text-yellow-800 bg-yellow-50 rounded px-3 py-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>
+            {fuzzyCount > 0 && `${fuzzyCount} 处高亮为近似匹配`}
+            {fuzzyCount > 0 && unmatched.length > 0 && '，'}
+            {unmatched.length > 0 && `${unmatched.length} 处高亮未能在原文中找到`}
+          </span>
+        </div>
+      )}
+
+      <div className="max-h-[32rem] overflow-y-auto pr-2 text-gray-700 leading-relaxed whitespace-pre-wrap break-words">
+        {segments.map((segment) =>
+          segment.highlight ? (
+            <mark
+              key={segment.start}
+              ref={(element) => {
+                if (element) markRefs.current.set(segment.highlight!.id, element);
+                else markRefs.current.delete(segment.highlight!.id);
+              }}
+              className={`rounded px-0.5 ${MARK_COLORS[segment.highlight.type]}`}
+              title={segment.highlight.context}
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <React.Fragment key={segment.start}>{segment.text}</React.Fragment>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
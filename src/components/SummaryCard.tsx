@@ -1,13 +1,36 @@
 import React from 'react';
-import { FileText, Clock, Key, Target, ExternalLink, Copy, Check } from 'lucide-react';
-import { SummaryData } from '../types';
+import { FileText, Clock, Key, Target, ExternalLink, Copy, Check, AlertTriangle, Database, RefreshCw, CheckCircle, XCircle } from 'lucide-react';
+import { SummaryData, ParseWarning } from '../types';
 import { useState } from 'react';
+import { ExportMenu } from './ExportMenu';
+import { describeAnalysisOptions } from '../utils/analysisOptions';
+import { formatCacheAge } from '../utils/resultCache';
+import { ATTEMPT_STEP_LABELS } from '../utils/retryPolicy';
 
 interface SummaryCardProps {
   data: SummaryData;
+  warnings?: ParseWarning[];
+  // 结果来自缓存时的缓存时间
+  cachedAt?: string | null;
+  // 跳过缓存重新分析
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+  // 流式分析中的部分结果：缺失的字段显示占位，隐藏复制与导出
+  isStreaming?: boolean;
 }
 
-export const SummaryCard: React.FC<SummaryCardProps> = ({ data }) => {
+const StreamingCursor = () => (
+  <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-primary-500 animate-pulse" />
+);
+
+export const SummaryCard: React.FC<SummaryCardProps> = ({
+  data,
+  warnings = [],
+  cachedAt,
+  onRefresh,
+  isRefreshing = false,
+  isStreaming = false
+}) => {
   const [copiedSection, setCopiedSection] = useState<string | null>(null);
 
   const copyToClipboard = async (text: string, section: string) => {
@@ -41,8 +64,14 @@ export const SummaryCard: React.FC<SummaryCardProps> = ({ data }) => {
         <div className="flex items-start justify-between mb-4">
           <div className="flex-1">
             <h1 className="text-2xl font-bold text-gray-900 mb-2 leading-tight">
-              {data.title}
+              {data.title || (isStreaming && <span className="text-gray-300">正在生成标题...</span>)}
             </h1>
+            {data.sourceId && (
+              <span className="inline-flex items-center space-x-1 text-sm text-gray-500" title={data.sourceId}>
+                <FileText className="w-4 h-4" />
+                <span>来源：{data.sourceName || '用户提供的文本'}</span>
+              </span>
+            )}
             {data.sourceUrl && (
               <a
                 href={data.sourceUrl}
@@ -56,17 +85,117 @@ export const SummaryCard: React.FC<SummaryCardProps> = ({ data }) => {
             )}
           </div>
           <div className="flex items-center space-x-3 text-sm text-gray-500">
-            <div className="flex items-center space-x-1">
-              <Clock className="w-4 h-4" />
-              <span>{data.readingTime}</span>
-            </div>
+            {data.readingTime && (
+              <div className="flex items-center space-x-1">
+                <Clock className="w-4 h-4" />
+                <span>{data.readingTime}</span>
+              </div>
+            )}
             {data.createdAt && (
               <span>{new Date(data.createdAt).toLocaleDateString('zh-CN')}</span>
             )}
+            {!isStreaming && <ExportMenu data={data} />}
           </div>
         </div>
+
+        {/* 缓存标记 */}
+        {cachedAt && (
+          <div className="flex items-center justify-between mb-3 px-3 py-2 bg-blue-50 border border-blue-100 rounded-lg text-xs text-blue-700">
+            <span
+              className="flex items-center space-x-1.5"
+              title={new Date(cachedAt).toLocaleString('zh-CN')}
+            >
+              <Database className="w-3.5 h-3.5" />
+              <span>来自缓存 · {formatCacheAge(cachedAt)}生成</span>
+            </span>
+            {onRefresh && (
+              <button
+                onClick={onRefresh}
+                disabled={isRefreshing}
+                className="flex items-center space-x-1 font-medium hover:text-blue-900 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RefreshCw className={`w-3.5 h-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
+                <span>强制刷新</span>
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* 生成时使用的端点、模板与分析选项 */}
+        {(data.endpoint || data.template || data.options) && (
+          <div className="flex flex-wrap gap-1.5 text-xs text-gray-500">
+            {data.endpoint && (
+              <span
+                className="px-2 py-0.5 bg-gray-100 rounded"
+                title={data.endpoint.baseUrl}
+              >
+                端点：{data.endpoint.name} / {data.endpoint.agentId}
+              </span>
+            )}
+            {data.template && (
+              <span className="px-2 py-0.5 bg-primary-50 text-primary-700 rounded">
+                模板：{data.template.name} v{data.template.version}
+              </span>
+            )}
+            {data.options &&
+              describeAnalysisOptions(data.options).map((label) => (
+                <span key={label} className="px-2 py-0.5 bg-gray-100 rounded">
+                  {label}
+                </span>
+              ))}
+          </div>
+        )}
+
+        {/* 请求诊断：调用Agent的每次尝试，包括重试和回退 */}
+        {data.attempts && data.attempts.length > 0 && (
+          <details className="mt-3 text-xs text-gray-500">
+            <summary className="cursor-pointer select-none">
+              请求诊断（{data.attempts.length} 次尝试
+              {data.attempts.some((record) => !record.ok) &&
+                `，${data.attempts.filter((record) => !record.ok).length} 次失败`}
+              ）
+            </summary>
+            <ol className="mt-2 space-y-1">
+              {data.attempts.map((record, index) => (
+                <li key={index} className="flex items-start space-x-1.5">
+                  {record.ok ? (
+                    <CheckCircle className="w-3.5 h-3.5 text-green-500 flex-shrink-0 mt-0.5" />
+                  ) : (
+                    <XCircle className="w-3.5 h-3.5 text-red-500 flex-shrink-0 mt-0.5" />
+                  )}
+                  <span className="break-all">
+                    {ATTEMPT_STEP_LABELS[record.step]} · {record.endpoint.name} · 第 {record.attempt} 次 ·{' '}
+                    {(record.elapsedMs / 1000).toFixed(1)} 秒
+                    {record.error && `：${record.error}`}
+                    {record.retryDelayMs !== undefined &&
+                      `，${(record.retryDelayMs / 1000).toFixed(1)} 秒后重试`}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </details>
+        )}
       </div>
 
+      {/* 解析警告 */}
+      {warnings.length > 0 && (
+        <div className="card border-yellow-200 bg-yellow-50">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+            <div>
+              <h3 className="text-sm font-medium text-yellow-800 mb-1">
+                返回结果已自动修复（{warnings.length} 项）
+              </h3>
+              <ul className="text-xs text-yellow-700 space-y-0.5">
+                {warnings.map((warning, index) => (
+                  <li key={index}>{warning.message}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* 摘要 */}
       <div className="card">
         <div className="flex items-center justify-between mb-4">
@@ -74,11 +203,13 @@ export const SummaryCard: React.FC<SummaryCardProps> = ({ data }) => {
             <FileText className="w-5 h-5 text-primary-600" />
             <span>内容摘要</span>
           </h2>
-          <CopyButton text={data.summary} section="summary" />
+          {!isStreaming && <CopyButton text={data.summary} section="summary" />}
         </div>
         <div className="prose prose-gray max-w-none">
           <p className="text-gray-700 leading-relaxed whitespace-pre-line">
             {data.summary}
+            {/* 摘要之后的字段出现前，光标停留在摘要末尾 */}
+            {isStreaming && data.keyPoints.length === 0 && <StreamingCursor />}
           </p>
         </div>
       </div>
@@ -91,16 +222,20 @@ export const SummaryCard: React.FC<SummaryCardProps> = ({ data }) => {
               <Target className="w-5 h-5 text-green-600" />
               <span>关键要点</span>
             </h2>
-            <CopyButton 
-              text={data.keyPoints.map((point, index) => `${index + 1}. ${point}`).join('\n')} 
-              section="keyPoints" 
-            />
+            {!isStreaming && (
+              <CopyButton
+                text={data.keyPoints.map((point, index) => `${index + 1}. ${point}`).join('\n')}
+                section="keyPoints"
+              />
+            )}
           </div>
           <div className="space-y-3">
             {data.keyPoints.map((point, index) => (
               <div 
                 key={index} 
-                className="flex items-start space-x-3 p-3 bg-green-50 rounded-lg border border-green-100"
+                className={`flex items-start space-x-3 p-3 bg-green-50 rounded-lg border border-green-100 ${
+                  isStreaming ? 'animate-fade-in' : ''
+                }`}
               >
                 <span className="inline-flex items-center justify-center w-6 h-6 bg-green-500 text-white text-sm font-bold rounded-full flex-shrink-0 mt-0.5">
                   {index + 1}
@@ -122,10 +257,7 @@ export const SummaryCard: React.FC<SummaryCardProps> = ({ data }) => {
               <Key className="w-5 h-5 text-blue-600" />
               <span>关键词</span>
             </h2>
-            <CopyButton 
-              text={data.keywords.join(', ')} 
-              section="keywords" 
-            />
+            {!isStreaming && <CopyButton text={data.keywords.join(', ')} section="keywords" />}
           </div>
           <div className="flex flex-wrap gap-2">
             {data.keywords.map((keyword, index) => (
@@ -164,7 +296,7 @@ export const SummaryCard: React.FC<SummaryCardProps> = ({ data }) => {
           </div>
           <div className="text-center">
             <div className="text-2xl font-bold text-purple-600">
-              {data.readingTime}
+              {data.readingTime || '—'}
             </div>
             <div className="text-gray-600">阅读时长</div>
           </div>
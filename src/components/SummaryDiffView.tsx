@@ -0,0 +1,201 @@
+import React, { useMemo } from 'react';
+import { GitCompare, X, ArrowLeftRight, Plus, Minus, Key, Target, Highlighter, FileText } from 'lucide-react';
+import { AnalysisHistory } from '../types';
+import { DiffSegment, ListDiff, diffSummaries, hasTextChanges } from '../utils/summaryDiff';
+
+interface SummaryDiffViewProps {
+  // base为旧版本，target为新版本
+  base: AnalysisHistory;
+  target: AnalysisHistory;
+  onSwap: () => void;
+  onClose: () => void;
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('zh-CN');
+
+const InlineDiff: React.FC<{ segments: DiffSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) => {
+      if (segment.type === 'added') {
+        return (
+          <ins key={index} className="bg-green-100 text-green-800 no-underline rounded px-0.5">
+            {segment.text}
+          </ins>
+        );
+      }
+      if (segment.type === 'removed') {
+        return (
+          <del key={index} className="bg-red-100 text-red-700 rounded px-0.5">
+            {segment.text}
+          </del>
+        );
+      }
+      return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+    })}
+  </>
+);
+
+const ListChanges = <T,>({
+  diff,
+  getText,
+  getKey
+}: {
+  diff: ListDiff<T>;
+  getText: (item: T) => string;
+  getKey: (item: T, index: number) => string;
+}) => {
+  if (diff.added.length === 0 && diff.removed.length === 0) {
+    return <p className="text-sm text-gray-500">无变化（共 {diff.unchanged.length} 项）</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {diff.added.map((item, index) => (
+        <li
+          key={`added-${getKey(item, index)}`}
+          className="flex items-start space-x-2 p-2 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800"
+        >
+          <Plus className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{getText(item)}</span>
+        </li>
+      ))}
+      {diff.removed.map((item, index) => (
+        <li
+          key={`removed-${getKey(item, index)}`}
+          className="flex items-start space-x-2 p-2 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700"
+        >
+          <Minus className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span className="line-through">{getText(item)}</span>
+        </li>
+      ))}
+      {diff.unchanged.length > 0 && (
+        <li className="text-xs text-gray-500">另有 {diff.unchanged.length} 项未变化</li>
+      )}
+    </ul>
+  );
+};
+
+export const SummaryDiffView: React.FC<SummaryDiffViewProps> = ({
+  base,
+  target,
+  onSwap,
+  onClose
+}) => {
+  const diff = useMemo(() => diffSummaries(base.data, target.data), [base, target]);
+
+  return (
+    <div className="space-y-6">
+      {/* 对比对象 */}
+      <div className="card">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+            <GitCompare className="w-5 h-5 text-primary-600" />
+            <span>摘要对比</span>
+          </h2>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={onSwap}
+              className="p-1.5 text-gray-400 hover:text-gray-600 rounded transition-colors duration-200"
+              title="交换对比方向"
+            >
+              <ArrowLeftRight className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1.5 text-gray-400 hover:text-gray-600 rounded transition-colors duration-200"
+              title="关闭对比"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-xs">
+          <div className="p-3 rounded-lg bg-red-50 border border-red-200 min-w-0">
+            <div className="font-medium text-red-700 mb-1">旧</div>
+            <div className="text-gray-900 truncate" title={base.title}>{base.title}</div>
+            <div className="text-gray-500">{formatDateTime(base.createdAt)}</div>
+          </div>
+          <div className="p-3 rounded-lg bg-green-50 border border-green-200 min-w-0">
+            <div className="font-medium text-green-700 mb-1">新</div>
+            <div className="text-gray-900 truncate" title={target.title}>{target.title}</div>
+            <div className="text-gray-500">{formatDateTime(target.createdAt)}</div>
+          </div>
+        </div>
+
+        {base.url !== target.url && (
+          <p className="mt-3 text-xs text-gray-500">两条记录来自不同的网页</p>
+        )}
+
+        {hasTextChanges(diff.title) && (
+          <p className="mt-3 text-sm text-gray-700">
+            <span className="font-medium">标题：</span>
+            <InlineDiff segments={diff.title} />
+          </p>
+        )}
+      </div>
+
+      {/* 摘要文本差异 */}
+      <div className="card">
+        <h3 className="text-base font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+          <FileText className="w-4 h-4 text-gray-600" />
+          <span>内容摘要</span>
+        </h3>
+        {hasTextChanges(diff.summary) ? (
+          <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">
+            <InlineDiff segments={diff.summary} />
+          </p>
+        ) : (
+          <p className="text-sm text-gray-500">无变化</p>
+        )}
+      </div>
+
+      {/* 关键要点 */}
+      <div className="card">
+        <h3 className="text-base font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+          <Target className="w-4 h-4 text-gray-600" />
+          <span>关键要点</span>
+        </h3>
+        <ListChanges diff={diff.keyPoints} getText={(point) => point} getKey={(_, index) => String(index)} />
+      </div>
+
+      {/* 关键词 */}
+      <div className="card">
+        <h3 className="text-base font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+          <Key className="w-4 h-4 text-gray-600" />
+          <span>关键词</span>
+        </h3>
+        {diff.keywords.added.length === 0 && diff.keywords.removed.length === 0 ? (
+          <p className="text-sm text-gray-500">无变化（共 {diff.keywords.unchanged.length} 项）</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {diff.keywords.added.map((keyword) => (
+              <span key={`added-${keyword}`} className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm">
+                + {keyword}
+              </span>
+            ))}
+            {diff.keywords.removed.map((keyword) => (
+              <span key={`removed-${keyword}`} className="px-3 py-1 bg-red-100 text-red-700 rounded-full text-sm line-through">
+                {keyword}
+              </span>
+            ))}
+            {diff.keywords.unchanged.map((keyword) => (
+              <span key={`unchanged-${keyword}`} className="px-3 py-1 bg-gray-100 text-gray-600 rounded-full text-sm">
+                {keyword}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* 内容高亮 */}
+      <div className="card">
+        <h3 className="text-base font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+          <Highlighter className="w-4 h-4 text-gray-600" />
+          <span>内容高亮</span>
+        </h3>
+        <ListChanges diff={diff.highlights} getText={(highlight) => highlight.text} getKey={(highlight) => highlight.id} />
+      </div>
+    </div>
+  );
+};
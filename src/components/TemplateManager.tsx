@@ -0,0 +1,297 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileCode, X, Plus, Copy, Trash2, Save, Check, Lock, AlertTriangle } from 'lucide-react';
+import { AnalysisOptions, PromptTemplate } from '../types';
+import { TemplateDraft } from '../hooks/usePromptTemplates';
+import {
+  TEMPLATE_VARIABLES,
+  hasUrlVariable,
+  renderTemplate,
+  templateVariables,
+  withSourceTextRequest,
+  withUrlVariable
+} from '../utils/promptTemplates';
+
+interface TemplateManagerProps {
+  templates: PromptTemplate[];
+  selectedId: string;
+  // 用于预览渲染结果
+  analysisOptions: AnalysisOptions;
+  onSelect: (id: string) => void;
+  onCreate: (draft: TemplateDraft) => PromptTemplate;
+  onUpdate: (id: string, draft: TemplateDraft) => void;
+  onDuplicate: (template: PromptTemplate) => PromptTemplate;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_URL = 'https://example.com/article';
+
+const NEW_TEMPLATE: TemplateDraft = {
+  name: '新模板',
+  description: '',
+  body: '请分析这个网页并返回JSON格式的摘要：{{url}}\n\n要求：\n- 输出语言：{{language}}\n- 关键要点：不超过{{maxPoints}}条'
+};
+
+const toDraft = (template: PromptTemplate): TemplateDraft => ({
+  name: template.name,
+  description: template.description || '',
+  body: template.body
+});
+
+export const TemplateManager: React.FC<TemplateManagerProps> = ({
+  templates,
+  selectedId,
+  analysisOptions,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onDuplicate,
+  onDelete,
+  onClose
+}) => {
+  const [activeId, setActiveId] = useState(selectedId);
+  const active = templates.find((t) => t.id === activeId) || templates[0];
+  const [draft, setDraft] = useState<TemplateDraft>(() => toDraft(active));
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  // 切换模板或保存后（版本变化）重置草稿
+  useEffect(() => {
+    setDraft(toDraft(active));
+  }, [active.id, active.version]);
+
+  const isReadOnly = Boolean(active.builtIn);
+  const isDirty =
+    !isReadOnly &&
+    (draft.name !== active.name ||
+      draft.description !== (active.description || '') ||
+      draft.body !== active.body);
+  const preview = renderTemplate(
+    withSourceTextRequest(withUrlVariable(draft.body)),
+    templateVariables(PREVIEW_URL, analysisOptions)
+  );
+
+  const confirmDiscard = () => !isDirty || window.confirm('当前模板有未保存的修改，确定放弃吗？');
+
+  const switchTo = (id: string) => {
+    if (id !== active.id && confirmDiscard()) setActiveId(id);
+  };
+
+  const handleCreate = () => {
+    if (confirmDiscard()) setActiveId(onCreate(NEW_TEMPLATE).id);
+  };
+
+  const handleDuplicate = () => {
+    if (confirmDiscard()) setActiveId(onDuplicate(active).id);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`确定删除模板「${active.name}」吗？`)) return;
+    onDelete(active.id);
+    setActiveId(templates[0].id);
+  };
+
+  const handleSave = () => {
+    if (draft.name.trim() && draft.body.trim()) {
+      onUpdate(active.id, { ...draft, name: draft.name.trim() });
+    }
+  };
+
+  // 在光标处插入变量
+  const insertVariable = (name: string) => {
+    const textarea = bodyRef.current;
+    const token = `{{${name}}}`;
+    if (!textarea) {
+      setDraft((prev) => ({ ...prev, body: prev.body + token }));
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    const body = draft.body.slice(0, selectionStart) + token + draft.body.slice(selectionEnd);
+    setDraft((prev) => ({ ...prev, body }));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black bg-opacity-50"
+        onClick={() => confirmDiscard() && onClose()}
+      />
+
+      <div className="relative bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in">
+        {/* 头部 */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <FileCode className="w-5 h-5 text-gray-600" />
+            <h2 className="text-lg font-bold text-gray-900">提示词模板</h2>
+          </div>
+          <button
+            onClick={() => confirmDiscard() && onClose()}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* 模板列表 */}
+          <div className="w-56 border-r border-gray-200 flex flex-col flex-shrink-0">
+            <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+              {templates.map((template) => (
+                <li key={template.id}>
+                  <button
+                    onClick={() => switchTo(template.id)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors duration-200 ${
+                      template.id === active.id ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between space-x-2">
+                      <span className="truncate font-medium">{template.name}</span>
+                      {template.id === selectedId && <Check className="w-4 h-4 flex-shrink-0" />}
+                    </div>
+                    <div className="flex items-center space-x-1 text-xs text-gray-500">
+                      {template.builtIn && <Lock className="w-3 h-3" />}
+                      <span>{template.builtIn ? '内置' : `v${template.version}`}</span>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="p-2 border-t border-gray-200">
+              <button
+                onClick={handleCreate}
+                className="w-full flex items-center justify-center space-x-1 px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+              >
+                <Plus className="w-4 h-4" />
+                <span>新建模板</span>
+              </button>
+            </div>
+          </div>
+
+          {/* 编辑区 */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-4 text-sm">
+            {isReadOnly && (
+              <div className="flex items-center space-x-2 text-xs text-gray-600 bg-gray-50 rounded px-3 py-2">
+                <Lock className="w-3.5 h-3.5" />
+                <span>内置模板不可修改，复制后可编辑副本</span>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="block space-y-1.5">
+                <span className="font-medium text-gray-700">名称</span>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                  disabled={isReadOnly}
+                  className="input py-2 disabled:bg-gray-50"
+                />
+              </label>
+              <label className="block space-y-1.5">
+                <span className="font-medium text-gray-700">说明</span>
+                <input
+                  type="text"
+                  value={draft.description}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+                  disabled={isReadOnly}
+                  className="input py-2 disabled:bg-gray-50"
+                />
+              </label>
+            </div>
+
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-700">模板内容</span>
+                {!isReadOnly && (
+                  <div className="flex flex-wrap gap-1">
+                    {TEMPLATE_VARIABLES.map((variable) => (
+                      <button
+                        key={variable.name}
+                        onClick={() => insertVariable(variable.name)}
+                        className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs font-mono hover:bg-primary-50 hover:text-primary-700"
+                        title={`插入变量：${variable.description}`}
+                      >
+                        {`{{${variable.name}}}`}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <textarea
+                ref={bodyRef}
+                value={draft.body}
+                onChange={(e) => setDraft((prev) => ({ ...prev, body: e.target.value }))}
+                disabled={isReadOnly}
+                rows={10}
+                className="input font-mono text-xs leading-relaxed disabled:bg-gray-50"
+              />
+              {preview.unknown.length > 0 && (
+                <div className="flex items-center space-x-1 text-xs text-yellow-700">
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  <span>未知变量将原样发送：{preview.unknown.map((name) => `{{${name}}}`).join('、')}</span>
+                </div>
+              )}
+              {draft.body.trim() && !hasUrlVariable(draft.body) && (
+                <div className="flex items-center space-x-1 text-xs text-yellow-700">
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  <span>{'模板中没有 {{url}}，发送时将在末尾附上分析对象'}</span>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-1.5">
+              <span className="font-medium text-gray-700">预览（按当前分析选项渲染）</span>
+              <pre className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs text-gray-700 whitespace-pre-wrap font-mono max-h-48 overflow-y-auto">
+                {preview.text}
+              </pre>
+            </div>
+          </div>
+        </div>
+
+        {/* 操作 */}
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <button onClick={handleDuplicate} className="btn-secondary text-sm flex items-center space-x-1">
+              <Copy className="w-4 h-4" />
+              <span>复制</span>
+            </button>
+            {!isReadOnly && (
+              <button
+                onClick={handleDelete}
+                className="btn text-sm flex items-center space-x-1 text-red-600 hover:bg-red-50 focus:ring-red-500"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>删除</span>
+              </button>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            {!isReadOnly && (
+              <button
+                onClick={handleSave}
+                disabled={!isDirty || !draft.name.trim() || !draft.body.trim()}
+                className="btn-secondary text-sm flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="w-4 h-4" />
+                <span>保存{isDirty ? `为 v${active.version + 1}` : ''}</span>
+              </button>
+            )}
+            <button
+              onClick={() => {
+                if (!confirmDiscard()) return;
+                onSelect(active.id);
+                onClose();
+              }}
+              className="btn-primary text-sm"
+            >
+              使用此模板
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useRef, useState } from 'react';
+import { FileText, Upload, X } from 'lucide-react';
+import { TextSource } from '../types';
+import {
+  MAX_TEXT_SOURCE_CHARS,
+  TEXT_FILE_EXTENSIONS,
+  createPastedSource,
+  readTextFile
+} from '../utils/textSources';
+import { AnalysisError } from '../utils/analysisErrors';
+
+interface TextSourceInputProps {
+  mode: 'paste' | 'file';
+  // 内容有效时给出TextSource，清空或无效时为null
+  onChange: (source: TextSource | null) => void;
+  disabled?: boolean;
+}
+
+const describeError = (error: unknown) =>
+  error instanceof AnalysisError
+    ? `${error.message}。${error.suggestion}`
+    : error instanceof Error
+      ? error.message
+      : '读取内容失败';
+
+export const TextSourceInput: React.FC<TextSourceInputProps> = ({ mode, onChange, disabled = false }) => {
+  const [text, setText] = useState('');
+  const [file, setFile] = useState<TextSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    if (!value.trim()) {
+      setError(null);
+      onChange(null);
+      return;
+    }
+    try {
+      onChange(createPastedSource(value));
+      setError(null);
+    } catch (err) {
+      onChange(null);
+      setError(describeError(err));
+    }
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    try {
+      const source = await readTextFile(selected);
+      setFile(source);
+      setError(null);
+      onChange(source);
+    } catch (err) {
+      setFile(null);
+      setError(describeError(err));
+      onChange(null);
+    }
+  };
+
+  const clearFile = () => {
+    setFile(null);
+    setError(null);
+    onChange(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled) handleFile(e.dataTransfer.files[0]);
+  };
+
+  if (mode === 'paste') {
+    return (
+      <div className="space-y-1">
+        <textarea
+          value={text}
+          onChange={(e) => handleTextChange(e.target.value)}
+          placeholder="粘贴需要登录才能查看的网页正文、PDF中复制的文字或任意文本..."
+          disabled={disabled}
+          rows={8}
+          className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100 disabled:cursor-not-allowed text-sm resize-y"
+        />
+        <div className="flex justify-between text-xs">
+          <span className="text-red-600">{error}</span>
+          <span className={text.trim().length > MAX_TEXT_SOURCE_CHARS ? 'text-red-600' : 'text-gray-400'}>
+            {text.trim().length} / {MAX_TEXT_SOURCE_CHARS}
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {file ? (
+        <div className="flex items-center justify-between px-4 py-3 border border-gray-300 rounded-lg bg-gray-50">
+          <div className="flex items-center space-x-2 min-w-0">
+            <FileText className="w-5 h-5 text-primary-600 flex-shrink-0" />
+            <span className="truncate text-sm text-gray-800" title={file.name}>
+              {file.name}
+            </span>
+            <span className="text-xs text-gray-500 flex-shrink-0">{file.content.length} 字</span>
+          </div>
+          <button
+            onClick={clearFile}
+            disabled={disabled}
+            className="p-1 hover:bg-gray-200 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+            title="移除文件"
+          >
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+      ) : (
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center px-4 py-8 border-2 border-dashed rounded-lg cursor-pointer transition-colors duration-200 ${
+            isDragging ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-primary-500'
+          } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          <Upload className="w-6 h-6 text-gray-400 mb-2" />
+          <span className="text-sm text-gray-700">点击选择或拖放文件到此处</span>
+          <span className="text-xs text-gray-500 mt-1">
+            支持 {TEXT_FILE_EXTENSIONS.join('、')}，HTML将转换为纯文本
+          </span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={TEXT_FILE_EXTENSIONS.join(',')}
+            disabled={disabled}
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </label>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -1,51 +1,123 @@
-import React, { useState } from 'react'
-import { Search, Zap, Loader2, Link } from 'lucide-react'
-import { LoadingState } from '../types'
+import React, { useEffect, useState } from 'react'
+import { Search, Zap, Loader2, Link, XCircle, CloudOff } from 'lucide-react'
+import { AnalysisTarget, LoadingState, TextSource } from '../types'
+import { isHttpUrl } from '../utils/urls'
+import { TextSourceInput } from './TextSourceInput'
+
+const STAGE_LABELS: Record<LoadingState['stage'], string> = {
+  fetching: '等待响应',
+  analyzing: '生成',
+  extracting: '解析',
+  complete: '完成'
+}
+
+const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}s`
 
 interface UrlInputProps {
-  onAnalyze: (url: string) => Promise<void>
+  onAnalyze: (target: AnalysisTarget) => Promise<void>
   onAnalyzeStream: (
-    url: string,
+    target: AnalysisTarget,
     onChunk?: (chunk: string) => void
   ) => Promise<void>
+  onCancel: () => void
   loadingState: LoadingState
   isStreaming: boolean
+  // 流式输出已解析出部分结果并在下方展示
+  hasStreamPreview?: boolean
   disabled?: boolean
+  // API离线时提供，URL改为加入离线队列；离线队列不支持文本内容
+  onQueue?: (url: string) => void
+  queuedCount?: number
+  // 单个和批量分析共用的选项面板
+  optionsPanel?: React.ReactNode
+  // 批量模式下渲染的内容
+  batchInput?: React.ReactNode
+  // 对比评测模式下渲染的内容
+  compareInput?: React.ReactNode
+}
+
+type InputMode = 'single' | 'batch' | 'compare'
+
+const MODE_LABELS: Record<InputMode, string> = {
+  single: '单个分析',
+  batch: '批量分析',
+  compare: '对比评测'
+}
+
+// 单个分析的输入来源：网页URL、粘贴的文本或上传的文件
+type SourceMode = 'url' | 'paste' | 'file'
+
+const SOURCE_LABELS: Record<SourceMode, string> = {
+  url: '网址',
+  paste: '粘贴文本',
+  file: '上传文件'
 }
 
 export const UrlInput: React.FC<UrlInputProps> = ({
   onAnalyze,
   onAnalyzeStream,
+  onCancel,
   loadingState,
   isStreaming,
-  disabled = false
+  hasStreamPreview = false,
+  disabled = false,
+  onQueue,
+  queuedCount = 0,
+  optionsPanel,
+  batchInput,
+  compareInput
 }) => {
+  const [mode, setMode] = useState<InputMode>('single')
+  const modes: InputMode[] = [
+    'single',
+    ...(batchInput ? (['batch'] as const) : []),
+    ...(compareInput ? (['compare'] as const) : [])
+  ]
+  const [sourceMode, setSourceMode] = useState<SourceMode>('url')
   const [url, setUrl] = useState('')
+  const [textSource, setTextSource] = useState<TextSource | null>(null)
   const [streamOutput, setStreamOutput] = useState('')
+  const [now, setNow] = useState(() => Date.now())
 
-  const isValidUrl = (url: string): boolean => {
-    try {
-      new URL(url)
-      return true
-    } catch {
-      return false
-    }
+  // 加载期间每秒刷新一次耗时显示
+  useEffect(() => {
+    if (!loadingState.isLoading) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [loadingState.isLoading])
+
+  // 当前可提交的分析对象，输入无效时为null
+  const target: AnalysisTarget | null =
+    sourceMode === 'url'
+      ? url.trim() && isHttpUrl(url)
+        ? url
+        : null
+      : textSource
+  const canSubmit = target !== null && !loadingState.isLoading && !disabled
+  const canQueue = sourceMode === 'url' && target !== null && !disabled
+
+  const handleSourceModeChange = (value: SourceMode) => {
+    setSourceMode(value)
+    setTextSource(null)
   }
 
   const handleAnalyze = async () => {
-    if (!url.trim() || !isValidUrl(url) || loadingState.isLoading || disabled) {
+    if (onQueue) {
+      if (!canQueue || typeof target !== 'string') return
+      onQueue(target)
+      setUrl('')
       return
     }
-    await onAnalyze(url)
+    if (!canSubmit || !target) return
+    await onAnalyze(target)
   }
 
   const handleAnalyzeStream = async () => {
-    if (!url.trim() || !isValidUrl(url) || loadingState.isLoading || disabled) {
-      return
-    }
+    if (!canSubmit || !target) return
 
     setStreamOutput('')
-    await onAnalyzeStream(url, (chunk) => {
+    await onAnalyzeStream(target, (chunk) => {
       setStreamOutput((prev) => prev + chunk)
     })
   }
@@ -60,11 +132,13 @@ export const UrlInput: React.FC<UrlInputProps> = ({
   const getStageText = () => {
     switch (loadingState.stage) {
       case 'fetching':
-        return '正在获取网页内容...'
-      case 'extracting':
-        return '正在提取关键信息...'
+        return '请求已发送，等待Agent获取网页内容...'
       case 'analyzing':
-        return '正在进行AI分析...'
+        return loadingState.receivedChars
+          ? `AI正在生成分析结果（已接收 ${loadingState.receivedChars} 字符）...`
+          : '正在进行AI分析...'
+      case 'extracting':
+        return '正在解析结构化结果...'
       case 'complete':
         return '分析完成'
       default:
@@ -81,101 +155,221 @@ export const UrlInput: React.FC<UrlInputProps> = ({
             智能网页内容分析
           </h2>
           <p className="text-gray-600">
-            输入任意网页URL，获取AI驱动的内容摘要和关键信息提取
+            输入网页URL、粘贴文本或上传文件，获取AI驱动的内容摘要和关键信息提取
           </p>
         </div>
 
-        {/* URL输入区域 */}
-        <div className="space-y-4">
-          <div className="relative">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-              <Link className="h-5 w-5 text-gray-400" />
+        {/* 模式切换 */}
+        {modes.length > 1 && (
+          <div className="flex justify-center">
+            <div className="inline-flex p-1 bg-gray-100 rounded-lg text-sm">
+              {modes.map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  disabled={loadingState.isLoading}
+                  className={`px-4 py-1.5 rounded-md font-medium transition-colors duration-200 disabled:cursor-not-allowed ${
+                    mode === value
+                      ? 'bg-white text-gray-900 shadow-sm'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {MODE_LABELS[value]}
+                </button>
+              ))}
             </div>
-            <input
-              type="url"
-              value={url}
-              onChange={(e) => setUrl(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder="https://example.com/article"
-              disabled={loadingState.isLoading || disabled}
-              className="block w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100 disabled:cursor-not-allowed text-sm"
-            />
           </div>
+        )}
 
-          {/* 按钮组 */}
-          <div className="flex flex-col sm:flex-row gap-3">
-            <button
-              onClick={handleAnalyze}
-              disabled={
-                !url.trim() ||
-                !isValidUrl(url) ||
-                loadingState.isLoading ||
-                disabled
-              }
-              className="flex-1 flex items-center justify-center space-x-2 bg-primary-600 text-white py-3 px-6 rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              {loadingState.isLoading && !isStreaming ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
+        {optionsPanel}
+
+        {mode === 'batch' ? (
+          batchInput
+        ) : mode === 'compare' ? (
+          compareInput
+        ) : (
+          <>
+            {/* 输入区域 */}
+            <div className="space-y-4">
+              <div className="flex space-x-4 text-sm border-b border-gray-100">
+                {(Object.keys(SOURCE_LABELS) as SourceMode[]).map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => handleSourceModeChange(value)}
+                    disabled={loadingState.isLoading}
+                    className={`pb-2 -mb-px border-b-2 transition-colors duration-200 disabled:cursor-not-allowed ${
+                      sourceMode === value
+                        ? 'border-primary-600 text-primary-700 font-medium'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {SOURCE_LABELS[value]}
+                  </button>
+                ))}
+              </div>
+
+              {sourceMode === 'url' ? (
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Link className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    type="url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    onKeyPress={handleKeyPress}
+                    placeholder="https://example.com/article"
+                    disabled={loadingState.isLoading || disabled}
+                    className="block w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100 disabled:cursor-not-allowed text-sm"
+                  />
+                </div>
               ) : (
-                <Search className="w-5 h-5" />
+                // 切换来源时重新挂载，清空上一种来源的内容
+                <TextSourceInput
+                  key={sourceMode}
+                  mode={sourceMode}
+                  onChange={setTextSource}
+                  disabled={loadingState.isLoading || disabled}
+                />
               )}
-              <span>
-                {loadingState.isLoading && !isStreaming
-                  ? '分析中...'
-                  : '开始分析'}
-              </span>
-            </button>
-
-            <button
-              onClick={handleAnalyzeStream}
-              disabled={
-                !url.trim() ||
-                !isValidUrl(url) ||
-                loadingState.isLoading ||
-                disabled
-              }
-              className="flex-1 flex items-center justify-center space-x-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-6 rounded-lg hover:from-purple-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-            >
-              {isStreaming ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
+
+              {/* 按钮组 */}
+              {onQueue ? (
+                <button
+                  onClick={handleAnalyze}
+                  disabled={!canQueue}
+                  className="w-full flex items-center justify-center space-x-2 bg-gray-700 text-white py-3 px-6 rounded-lg hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <CloudOff className="w-5 h-5" />
+                  <span>
+                    {sourceMode === 'url'
+                      ? '加入离线队列'
+                      : '服务离线，文本内容需在恢复后分析'}
+                  </span>
+                </button>
               ) : (
-                <Zap className="w-5 h-5" />
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    onClick={handleAnalyze}
+                    disabled={!canSubmit}
+                    className="flex-1 flex items-center justify-center space-x-2 bg-primary-600 text-white py-3 px-6 rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {loadingState.isLoading && !isStreaming ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <Search className="w-5 h-5" />
+                    )}
+                    <span>
+                      {loadingState.isLoading && !isStreaming
+                        ? '分析中...'
+                        : '开始分析'}
+                    </span>
+                  </button>
+
+                  <button
+                    onClick={handleAnalyzeStream}
+                    disabled={!canSubmit}
+                    className="flex-1 flex items-center justify-center space-x-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-6 rounded-lg hover:from-purple-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                  >
+                    {isStreaming ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <Zap className="w-5 h-5" />
+                    )}
+                    <span>{isStreaming ? '流式分析中...' : '流式分析'}</span>
+                  </button>
+                </div>
               )}
-              <span>{isStreaming ? '流式分析中...' : '流式分析'}</span>
-            </button>
-          </div>
 
-          {/* URL验证提示 */}
-          {url.trim() && !isValidUrl(url) && (
-            <div className="text-sm text-red-600 flex items-center space-x-1">
-              <span>请输入有效的URL格式（例如：https://example.com）</span>
-            </div>
-          )}
-        </div>
+              {queuedCount > 0 && (
+                <div className="text-sm text-gray-500 flex items-center space-x-1">
+                  <CloudOff className="w-4 h-4" />
+                  <span>
+                    离线队列中有 {queuedCount} 个请求，服务恢复在线后自动分析，可在历史记录中调整顺序
+                  </span>
+                </div>
+              )}
 
-        {/* 进度条 */}
-        {loadingState.isLoading && (
-          <div className="space-y-2">
-            <div className="flex justify-between text-sm text-gray-600">
-              <span>{getStageText()}</span>
-              <span>{Math.round(loadingState.progress)}%</span>
-            </div>
-            <div className="w-full bg-gray-200 rounded-full h-2">
-              <div
-                className="bg-gradient-to-r from-primary-500 to-primary-600 h-2 rounded-full transition-all duration-300 ease-out"
-                style={{ width: `${loadingState.progress}%` }}
-              />
+              {/* URL验证提示 */}
+              {sourceMode === 'url' && url.trim() && !isHttpUrl(url) && (
+                <div className="text-sm text-red-600 flex items-center space-x-1">
+                  <span>请输入有效的URL格式（例如：https://example.com）</span>
+                </div>
+              )}
             </div>
-          </div>
-        )}
 
-        {/* 流式输出显示 */}
-        {isStreaming && streamOutput && (
-          <div className="bg-gray-50 border rounded-lg p-4 max-h-40 overflow-y-auto">
-            <div className="text-sm text-gray-700 whitespace-pre-wrap font-mono">
-              {streamOutput}
-            </div>
-          </div>
+            {/* 进度条 */}
+            {loadingState.isLoading && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>{getStageText()}</span>
+                  <span>
+                    {loadingState.startedAt !== undefined &&
+                      `${formatDuration(now - loadingState.startedAt)} · `}
+                    {Math.round(loadingState.progress)}%
+                  </span>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <div className="flex-1 bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-gradient-to-r from-primary-500 to-primary-600 h-2 rounded-full transition-all duration-300 ease-out"
+                      style={{ width: `${loadingState.progress}%` }}
+                    />
+                  </div>
+                  <button
+                    onClick={onCancel}
+                    className="flex items-center space-x-1 text-sm text-gray-500 hover:text-red-600 transition-colors duration-200"
+                    title="取消本次分析"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    <span>取消</span>
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* 各阶段耗时 */}
+            {loadingState.stages && loadingState.stages.length > 0 && (
+              <div className="flex flex-wrap gap-2 text-xs text-gray-500">
+                {loadingState.stages
+                  .filter((timing) => timing.stage !== 'complete')
+                  .map((timing) => (
+                    <span
+                      key={timing.stage}
+                      className="px-2 py-0.5 bg-gray-100 rounded"
+                    >
+                      {STAGE_LABELS[timing.stage]}{' '}
+                      {formatDuration(
+                        (timing.endedAt ?? now) - timing.startedAt
+                      )}
+                    </span>
+                  ))}
+                {!loadingState.isLoading && loadingState.elapsedMs !== undefined && (
+                  <span className="px-2 py-0.5">
+                    总计 {formatDuration(loadingState.elapsedMs)}
+                  </span>
+                )}
+              </div>
+            )}
+
+            {/* 流式输出显示：已能解析出结构化结果时收起原始输出 */}
+            {isStreaming && streamOutput && (
+              hasStreamPreview ? (
+                <details className="text-sm text-gray-500">
+                  <summary className="cursor-pointer select-none">查看原始输出</summary>
+                  <div className="mt-2 bg-gray-50 border rounded-lg p-4 max-h-40 overflow-y-auto text-gray-700 whitespace-pre-wrap font-mono">
+                    {streamOutput}
+                  </div>
+                </details>
+              ) : (
+                <div className="bg-gray-50 border rounded-lg p-4 max-h-40 overflow-y-auto">
+                  <div className="text-sm text-gray-700 whitespace-pre-wrap font-mono">
+                    {streamOutput}
+                  </div>
+                </div>
+              )
+            )}
+          </>
         )}
 
         {/* 功能特点 */}
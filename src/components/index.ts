@@ -1,6 +1,20 @@
 // 统一导出所有组件
 export { Header } from './Header';
 export { UrlInput } from './UrlInput';
+export { TextSourceInput } from './TextSourceInput';
+export { AnalysisOptionsPanel } from './AnalysisOptionsPanel';
+export { TemplateManager } from './TemplateManager';
+export { EndpointSettings } from './EndpointSettings';
+export { BatchInput } from './BatchInput';
+export { CompareInput } from './CompareInput';
+export { EvaluationView } from './EvaluationView';
+export { ErrorCard } from './ErrorCard';
 export { SummaryCard } from './SummaryCard';
 export { HighlightView } from './HighlightView';
+export { SourceReader } from './SourceReader';
 export { HistoryPanel } from './HistoryPanel';
+export { PendingQueueList } from './PendingQueueList';
+export { SummaryDiffView } from './SummaryDiffView';
+export { ChatPanel } from './ChatPanel';
+export { ExportMenu } from './ExportMenu';
+export { ImportDialog } from './ImportDialog';
@@ -0,0 +1,141 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import {
+  AgentEndpoint,
+  AnalysisOptions,
+  BatchItem,
+  BatchOptions,
+  PromptTemplate,
+  SummaryData
+} from '../types'
+import { requestSummary } from '../utils/agentClient'
+import { DEFAULT_REQUEST_TIMEOUT_MS, createAbortScope } from '../utils/abort'
+import { DEFAULT_ANALYSIS_OPTIONS } from '../utils/analysisOptions'
+import { DEFAULT_TEMPLATE } from '../utils/promptTemplates'
+import { ENV_ENDPOINT } from '../utils/endpoints'
+import { NO_RETRY_POLICY } from '../utils/retryPolicy'
+import {
+  DEFAULT_BATCH_OPTIONS,
+  createBatchItems,
+  runBatchQueue
+} from '../utils/batchQueue'
+
+interface UseBatchAnalysisOptions {
+  // 单个URL完成后的回调，用于写入历史记录
+  onResult: (url: string, data: SummaryData) => Promise<unknown>
+  // 批次中每个URL使用的分析选项
+  analysisOptions?: AnalysisOptions
+  template?: PromptTemplate
+  endpoint?: AgentEndpoint
+  timeoutMs?: number
+}
+
+export const useBatchAnalysis = ({
+  onResult,
+  analysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+  template = DEFAULT_TEMPLATE,
+  endpoint = ENV_ENDPOINT,
+  timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+}: UseBatchAnalysisOptions) => {
+  const [items, setItems] = useState<BatchItem[]>([])
+  const [options, setOptions] = useState<BatchOptions>(DEFAULT_BATCH_OPTIONS)
+  const [isRunning, setIsRunning] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const updateItem = useCallback((item: BatchItem) => {
+    setItems((prev) => prev.map((i) => (i.id === item.id ? item : i)))
+  }, [])
+
+  // 处理单个URL：每个请求有独立的超时，同时响应整个批次的取消；
+  // 失败重试由队列按maxRetries统一处理，单次请求不再重试
+  const worker = useCallback(
+    async (url: string, batchSignal: AbortSignal) => {
+      const scope = createAbortScope(timeoutMs)
+      const onBatchAbort = () => scope.cancel()
+      batchSignal.addEventListener('abort', onBatchAbort, { once: true })
+
+      try {
+        const { data } = await requestSummary(
+          url,
+          scope.signal,
+          undefined,
+          analysisOptions,
+          template,
+          endpoint,
+          NO_RETRY_POLICY
+        )
+        return { result: data, title: data.title }
+      } finally {
+        batchSignal.removeEventListener('abort', onBatchAbort)
+        scope.dispose()
+      }
+    },
+    [timeoutMs, analysisOptions, template, endpoint]
+  )
+
+  const run = useCallback(
+    async (queue: BatchItem[]) => {
+      const controller = new AbortController()
+      controllerRef.current = controller
+      setIsRunning(true)
+
+      try {
+        await runBatchQueue({
+          items: queue,
+          options,
+          signal: controller.signal,
+          worker,
+          onItemUpdate: updateItem,
+          onItemDone: (item, data) => onResult(item.url, data)
+        })
+      } finally {
+        if (controllerRef.current === controller) controllerRef.current = null
+        setIsRunning(false)
+      }
+    },
+    [options, worker, updateItem, onResult]
+  )
+
+  // 将URL加入队列并开始处理
+  const start = useCallback(
+    (urls: string[]) => {
+      if (isRunning || urls.length === 0) return
+      const queue = createBatchItems(urls)
+      setItems(queue)
+      run(queue)
+    },
+    [isRunning, run]
+  )
+
+  // 重新排队所有失败的条目
+  const retryFailed = useCallback(() => {
+    if (isRunning) return
+    const queue = items.map((item) =>
+      item.status === 'failed'
+        ? { ...item, status: 'queued' as const, error: undefined }
+        : item
+    )
+    setItems(queue)
+    run(queue)
+  }, [isRunning, items, run])
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
+  const clear = useCallback(() => {
+    if (!isRunning) setItems([])
+  }, [isRunning])
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  return {
+    items,
+    options,
+    isRunning,
+    setOptions,
+    start,
+    retryFailed,
+    cancel,
+    clear
+  }
+}
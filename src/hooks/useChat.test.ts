@@ -0,0 +1,123 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { AnalysisHistory, ChatMessage, SummaryData } from '../types'
+import { storage } from '../utils/storage'
+import { streamChat } from '../utils/agentClient'
+import { useChat } from './useChat'
+import { useSummarizer } from './useSummarizer'
+
+vi.mock('../utils/agentClient', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/agentClient')>()),
+  streamChat: vi.fn()
+}))
+
+const summary = (title: string): SummaryData => ({
+  title,
+  summary: `${title}的摘要`,
+  keyPoints: [],
+  keywords: [],
+  highlights: [],
+  readingTime: '1分钟'
+})
+
+const record = (id: string, url: string): AnalysisHistory => ({
+  id,
+  url,
+  title: id,
+  summary: `${id}的摘要`,
+  createdAt: new Date().toISOString(),
+  data: summary(id)
+})
+
+const message = (content: string): ChatMessage => ({
+  id: content,
+  role: 'user',
+  content,
+  createdAt: '2024-01-01T00:00:00.000Z'
+})
+
+// 回答一直进行到请求被取消，期间先给出一段部分回答
+const streamUntilCancelled = () =>
+  vi.mocked(streamChat).mockImplementation(
+    (_messages, signal, onText) =>
+      new Promise((_resolve, reject) => {
+        onText('部分回答')
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true })
+      })
+  )
+
+describe('useChat', () => {
+  beforeEach(() => {
+    vi.mocked(streamChat).mockReset()
+  })
+
+  it('回答期间卸载时仍写回发起追问时的记录', async () => {
+    streamUntilCancelled()
+    const onPersist = vi.fn(async () => undefined)
+    const { result, unmount } = renderHook(() =>
+      useChat({ data: summary('A'), itemId: 'a', onPersist })
+    )
+
+    let sending: Promise<void> = Promise.resolve()
+    act(() => {
+      sending = result.current.send('核心论点是什么？')
+    })
+    unmount()
+    await sending
+
+    expect(onPersist).toHaveBeenCalledTimes(1)
+    const [itemId, conversation] = onPersist.mock.calls[0] as unknown as [string, ChatMessage[]]
+    expect(itemId).toBe('a')
+    expect(conversation.map((m) => m.content)).toEqual(['核心论点是什么？', '部分回答'])
+  })
+
+  it('结果未保存到历史时不写回', async () => {
+    vi.mocked(streamChat).mockResolvedValue('回答')
+    const onPersist = vi.fn(async () => undefined)
+    const { result } = renderHook(() => useChat({ data: summary('A'), onPersist }))
+
+    await act(() => result.current.send('问题'))
+
+    expect(onPersist).not.toHaveBeenCalled()
+    expect(result.current.messages.map((m) => m.content)).toEqual(['问题', '回答'])
+  })
+})
+
+describe('useSummarizer.saveConversation', () => {
+  beforeEach(async () => {
+    await storage.clearHistory()
+    await storage.saveToHistory(record('a', 'https://example.com/a'))
+    await storage.saveToHistory(record('b', 'https://example.com/b'))
+  })
+
+  const openItem = async (id: string) => {
+    const hook = renderHook(() => useSummarizer())
+    await waitFor(() => expect(hook.result.current.history).toHaveLength(2))
+    const item = hook.result.current.history.find((h) => h.id === id) as AnalysisHistory
+    act(() => hook.result.current.loadFromHistory(item))
+    return hook
+  }
+
+  it('切换到其他记录后只写回发起追问的记录', async () => {
+    const { result } = await openItem('b')
+
+    await act(() => result.current.saveConversation('a', [message('A的问题')]))
+
+    const saved = await storage.getHistory()
+    expect(saved.find((h) => h.id === 'a')?.conversation).toEqual([message('A的问题')])
+    expect(saved.find((h) => h.id === 'b')?.conversation).toBeUndefined()
+    expect(result.current.currentItem?.id).toBe('b')
+    expect(result.current.currentItem?.conversation).toBeUndefined()
+  })
+
+  it('写回当前记录时同步更新当前结果', async () => {
+    const { result } = await openItem('b')
+
+    await act(() => result.current.saveConversation('b', [message('B的问题')]))
+
+    expect(result.current.currentItem?.conversation).toEqual([message('B的问题')])
+    const saved = await storage.getHistory()
+    expect(saved.find((h) => h.id === 'b')?.conversation).toEqual([message('B的问题')])
+  })
+})
@@ -0,0 +1,108 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { AgentEndpoint, ChatMessage, SummaryData } from '../types'
+import { streamChat } from '../utils/agentClient'
+import { buildChatRequest, createChatMessage } from '../utils/chat'
+import { ENV_ENDPOINT } from '../utils/endpoints'
+import {
+  AbortScope,
+  AnalysisAbortedError,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  createAbortScope
+} from '../utils/abort'
+
+interface UseChatOptions {
+  data: SummaryData
+  // 已保存的对话，组件挂载时作为初始值
+  initialConversation?: ChatMessage[]
+  // 对话所属的历史记录，结果未保存到历史时为空，此时对话只保存在内存中
+  itemId?: string
+  // 每轮回答完成后调用，用于写回itemId对应的历史记录
+  onPersist: (itemId: string, conversation: ChatMessage[]) => Promise<void>
+  // 追问使用的服务端点，通常与生成摘要的端点一致
+  endpoint?: AgentEndpoint
+  timeoutMs?: number
+}
+
+export const useChat = ({
+  data,
+  initialConversation = [],
+  itemId,
+  onPersist,
+  endpoint = ENV_ENDPOINT,
+  timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+}: UseChatOptions) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(initialConversation)
+  const [isReplying, setIsReplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const scopeRef = useRef<AbortScope | null>(null)
+
+  // 组件卸载时取消未完成的回答
+  useEffect(() => () => scopeRef.current?.cancel(), [])
+
+  const send = useCallback(
+    async (question: string) => {
+      const content = question.trim()
+      if (!content || scopeRef.current) return
+
+      const userMessage = createChatMessage('user', content)
+      const reply = createChatMessage('assistant', '')
+      const conversation = [...messages, userMessage]
+      const scope = createAbortScope(timeoutMs)
+      scopeRef.current = scope
+
+      setError(null)
+      setIsReplying(true)
+      setMessages([...conversation, reply])
+
+      const updateReply = (text: string) =>
+        setMessages((prev) =>
+          prev.map((m) => (m.id === reply.id ? { ...m, content: text } : m))
+        )
+
+      let answer = ''
+      try {
+        answer = await streamChat(
+          buildChatRequest(data, conversation),
+          scope.signal,
+          (chunk) => {
+            answer += chunk
+            updateReply(answer)
+          },
+          endpoint
+        )
+      } catch (err) {
+        // 用户主动停止不算错误
+        if (!(err instanceof AnalysisAbortedError && err.reason === 'cancelled')) {
+          console.error('追问失败:', err)
+          setError(err instanceof Error ? err.message : '回答失败，请稍后重试')
+        }
+      } finally {
+        scope.dispose()
+        scopeRef.current = null
+        setIsReplying(false)
+      }
+
+      // 取消或失败时保留已收到的部分回答，没有内容则撤回空消息
+      const finalConversation = answer.trim()
+        ? [...conversation, { ...reply, content: answer }]
+        : conversation
+      setMessages(finalConversation)
+      // 回答期间切换记录会卸载组件，仍写回发起追问时的记录
+      if (itemId) await onPersist(itemId, finalConversation)
+    },
+    [data, messages, itemId, onPersist, endpoint, timeoutMs]
+  )
+
+  const stop = useCallback(() => {
+    scopeRef.current?.cancel()
+  }, [])
+
+  // 回答进行中时由界面禁用清空
+  const clear = useCallback(async () => {
+    setMessages([])
+    setError(null)
+    if (itemId) await onPersist(itemId, [])
+  }, [itemId, onPersist])
+
+  return { messages, isReplying, error, send, stop, clear }
+}
@@ -0,0 +1,80 @@
+import { useState, useCallback, useEffect } from 'react'
+import { AgentEndpoint } from '../types'
+import {
+  EndpointDraft,
+  createEndpointId,
+  loadEndpoints,
+  normalizeEndpointDraft,
+  saveEndpoints
+} from '../utils/endpoints'
+
+export const useEndpoints = () => {
+  const [state, setState] = useState(loadEndpoints)
+  const { endpoints, defaultId } = state
+  // 本次会话中用于新分析的端点，默认跟随默认端点
+  const [activeId, setActiveId] = useState(defaultId)
+
+  useEffect(() => {
+    saveEndpoints(state)
+  }, [state])
+
+  const defaultEndpoint =
+    endpoints.find((e) => e.id === defaultId) || endpoints[0]
+  const activeEndpoint =
+    endpoints.find((e) => e.id === activeId) || defaultEndpoint
+
+  // 按ID查找端点，已删除时回退到默认端点
+  const resolveEndpoint = useCallback(
+    (id?: string): AgentEndpoint =>
+      endpoints.find((e) => e.id === id) || defaultEndpoint,
+    [endpoints, defaultEndpoint]
+  )
+
+  const addEndpoint = useCallback((draft: EndpointDraft) => {
+    const endpoint: AgentEndpoint = {
+      ...normalizeEndpointDraft(draft),
+      id: createEndpointId()
+    }
+    setState((prev) => ({ ...prev, endpoints: [...prev.endpoints, endpoint] }))
+    return endpoint
+  }, [])
+
+  const updateEndpoint = useCallback((id: string, draft: EndpointDraft) => {
+    setState((prev) => ({
+      ...prev,
+      endpoints: prev.endpoints.map((e) =>
+        e.id === id ? { ...normalizeEndpointDraft(draft), id } : e
+      )
+    }))
+  }, [])
+
+  // 至少保留一个端点；删除默认端点时由第一个端点接替
+  const removeEndpoint = useCallback((id: string) => {
+    setState((prev) => {
+      const endpoints = prev.endpoints.filter((e) => e.id !== id)
+      if (endpoints.length === 0) return prev
+      return {
+        endpoints,
+        defaultId: prev.defaultId === id ? endpoints[0].id : prev.defaultId
+      }
+    })
+  }, [])
+
+  // 设为默认的同时切换当前使用的端点
+  const setDefaultEndpoint = useCallback((id: string) => {
+    setState((prev) => ({ ...prev, defaultId: id }))
+    setActiveId(id)
+  }, [])
+
+  return {
+    endpoints,
+    defaultEndpoint,
+    activeEndpoint,
+    selectEndpoint: setActiveId,
+    resolveEndpoint,
+    addEndpoint,
+    updateEndpoint,
+    removeEndpoint,
+    setDefaultEndpoint
+  }
+}
@@ -0,0 +1,189 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import {
+  AgentEndpoint,
+  AnalysisOptions,
+  Evaluation,
+  EvaluationRun,
+  PromptTemplate
+} from '../types'
+import { requestSummary } from '../utils/agentClient'
+import { toEndpointRef } from '../utils/endpoints'
+import { toTemplateRef } from '../utils/promptTemplates'
+import { NO_RETRY_POLICY } from '../utils/retryPolicy'
+import {
+  AbortScope,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  createAbortScope
+} from '../utils/abort'
+import {
+  createEvaluationId,
+  loadEvaluations,
+  saveEvaluations
+} from '../utils/evaluations'
+
+interface UseEvaluationOptions {
+  timeoutMs?: number
+}
+
+export const useEvaluation = ({
+  timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+}: UseEvaluationOptions = {}) => {
+  const [evaluations, setEvaluations] = useState<Evaluation[]>(loadEvaluations)
+  // 当前展示的评测
+  const [currentId, setCurrentId] = useState<string | null>(null)
+  const scopesRef = useRef<AbortScope[]>([])
+
+  useEffect(() => {
+    saveEvaluations(evaluations)
+  }, [evaluations])
+
+  // 组件卸载时取消未完成的请求
+  useEffect(() => () => scopesRef.current.forEach((s) => s.cancel()), [])
+
+  const current = evaluations.find((e) => e.id === currentId) || null
+  const isRunning = evaluations.some((e) =>
+    e.runs.some((run) => run.status === 'running')
+  )
+
+  const updateEvaluation = useCallback(
+    (id: string, update: (evaluation: Evaluation) => Evaluation) => {
+      setEvaluations((prev) => prev.map((e) => (e.id === id ? update(e) : e)))
+    },
+    []
+  )
+
+  // 两个端点各自计时、各自超时，先完成的一方先显示
+  const runEndpoint = useCallback(
+    async (
+      id: string,
+      index: 0 | 1,
+      url: string,
+      endpoint: AgentEndpoint,
+      options: AnalysisOptions,
+      template: PromptTemplate
+    ) => {
+      const scope = createAbortScope(timeoutMs)
+      scopesRef.current.push(scope)
+      const startedAt = performance.now()
+
+      let run: EvaluationRun
+      try {
+        const { data, responseChars, usage } = await requestSummary(
+          url,
+          scope.signal,
+          undefined,
+          options,
+          template,
+          endpoint,
+          // 评测如实记录端点的表现，失败时不重试
+          NO_RETRY_POLICY
+        )
+        run = {
+          endpoint: toEndpointRef(endpoint),
+          status: 'done',
+          data,
+          elapsedMs: Math.round(performance.now() - startedAt),
+          responseChars,
+          usage
+        }
+      } catch (err) {
+        run = {
+          endpoint: toEndpointRef(endpoint),
+          status: 'failed',
+          error: err instanceof Error ? err.message : String(err),
+          elapsedMs: Math.round(performance.now() - startedAt)
+        }
+      } finally {
+        scope.dispose()
+        scopesRef.current = scopesRef.current.filter((s) => s !== scope)
+      }
+
+      updateEvaluation(id, (e) => {
+        const runs: Evaluation['runs'] = [e.runs[0], e.runs[1]]
+        runs[index] = run
+        return { ...e, runs }
+      })
+    },
+    [timeoutMs, updateEvaluation]
+  )
+
+  const start = useCallback(
+    async (
+      url: string,
+      endpoints: [AgentEndpoint, AgentEndpoint],
+      options: AnalysisOptions,
+      template: PromptTemplate
+    ) => {
+      if (!url.trim() || isRunning) return
+
+      const pending = (endpoint: AgentEndpoint): EvaluationRun => ({
+        endpoint: toEndpointRef(endpoint),
+        status: 'running'
+      })
+      const evaluation: Evaluation = {
+        id: createEvaluationId(),
+        url,
+        createdAt: new Date().toISOString(),
+        options,
+        template: toTemplateRef(template),
+        runs: [pending(endpoints[0]), pending(endpoints[1])]
+      }
+      setEvaluations((prev) => [evaluation, ...prev])
+      setCurrentId(evaluation.id)
+
+      await Promise.all(
+        endpoints.map((endpoint, index) =>
+          runEndpoint(evaluation.id, index as 0 | 1, url, endpoint, options, template)
+        )
+      )
+    },
+    [isRunning, runEndpoint]
+  )
+
+  const cancel = useCallback(() => {
+    scopesRef.current.forEach((s) => s.cancel())
+  }, [])
+
+  // 再次点击同一选项时取消标注
+  const setPreference = useCallback(
+    (id: string, preferred: Evaluation['preferred']) => {
+      updateEvaluation(id, (e) => ({
+        ...e,
+        preferred: e.preferred === preferred ? undefined : preferred
+      }))
+    },
+    [updateEvaluation]
+  )
+
+  const setNote = useCallback(
+    (id: string, note: string) => {
+      updateEvaluation(id, (e) => ({ ...e, note: note || undefined }))
+    },
+    [updateEvaluation]
+  )
+
+  const deleteEvaluation = useCallback((id: string) => {
+    setEvaluations((prev) => prev.filter((e) => e.id !== id))
+    setCurrentId((prev) => (prev === id ? null : prev))
+  }, [])
+
+  // 进行中的评测不会被清除
+  const clearEvaluations = useCallback(() => {
+    setEvaluations((prev) =>
+      prev.filter((e) => e.runs.some((run) => run.status === 'running'))
+    )
+  }, [])
+
+  return {
+    evaluations,
+    current,
+    isRunning,
+    start,
+    cancel,
+    select: setCurrentId,
+    setPreference,
+    setNote,
+    deleteEvaluation,
+    clearEvaluations
+  }
+}
@@ -0,0 +1,27 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { AgentEndpoint, ApiStatus } from '../types'
+import {
+  HealthMonitor,
+  createHealthMonitor,
+  initialApiStatus
+} from '../utils/healthMonitor'
+
+// 监控当前端点的健康状况，切换端点时重新开始记录
+export const useHealthMonitor = (endpoint: AgentEndpoint) => {
+  const [apiStatus, setApiStatus] = useState<ApiStatus>(initialApiStatus)
+  const monitorRef = useRef<HealthMonitor | null>(null)
+
+  useEffect(() => {
+    setApiStatus(initialApiStatus)
+    const monitor = createHealthMonitor(endpoint, setApiStatus)
+    monitorRef.current = monitor
+    monitor.start()
+    return () => monitor.stop()
+  }, [endpoint])
+
+  const checkNow = useCallback(async () => {
+    await monitorRef.current?.checkNow()
+  }, [])
+
+  return { apiStatus, checkNow }
+}
@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { SummaryData } from '../types'
+import { requestSummary } from '../utils/agentClient'
+import { DEFAULT_ANALYSIS_OPTIONS } from '../utils/analysisOptions'
+import { ENV_ENDPOINT } from '../utils/endpoints'
+import { DEFAULT_TEMPLATE } from '../utils/promptTemplates'
+import { AgentHttpError, NO_RETRY_POLICY } from '../utils/retryPolicy'
+import { useOfflineQueue } from './useOfflineQueue'
+
+vi.mock('../utils/agentClient', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/agentClient')>()),
+  requestSummary: vi.fn()
+}))
+
+const summary: SummaryData = {
+  title: '示例网页',
+  summary: '一段摘要',
+  keyPoints: [],
+  keywords: [],
+  highlights: [],
+  readingTime: '1分钟'
+}
+
+// 在线时入队并执行一次，请求以给定的错误失败
+const failWhileOnline = async (error: Error) => {
+  vi.mocked(requestSummary).mockRejectedValueOnce(error)
+  const onResult = vi.fn(async () => undefined)
+  const hook = renderHook(
+    ({ isOnline }) =>
+      useOfflineQueue({
+        isOnline,
+        resolveEndpoint: () => ENV_ENDPOINT,
+        onResult,
+        retryPolicy: NO_RETRY_POLICY
+      }),
+    { initialProps: { isOnline: true } }
+  )
+
+  act(() =>
+    hook.result.current.enqueue(
+      'https://example.com/article',
+      DEFAULT_ANALYSIS_OPTIONS,
+      DEFAULT_TEMPLATE,
+      ENV_ENDPOINT
+    )
+  )
+  await waitFor(() => expect(hook.result.current.queue[0]?.status).toBe('failed'))
+  return { ...hook, onResult }
+}
+
+describe('useOfflineQueue', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.mocked(requestSummary).mockReset()
+    vi.mocked(requestSummary).mockResolvedValue({ data: summary, warnings: [], responseChars: 0 })
+  })
+
+  it('网络错误导致的失败在恢复在线后自动重新执行', async () => {
+    const { result, rerender, onResult } = await failWhileOnline(new TypeError('Failed to fetch'))
+    expect(result.current.queue[0].errorKind).toBe('network')
+
+    rerender({ isOnline: false })
+    rerender({ isOnline: true })
+
+    await waitFor(() => expect(result.current.queue).toEqual([]))
+    expect(onResult).toHaveBeenCalledWith('https://example.com/article', summary)
+  })
+
+  it('4xx错误在恢复在线后仍保持失败，需手动重试', async () => {
+    const { result, rerender } = await failWhileOnline(new AgentHttpError(400, 'Bad Request'))
+    expect(result.current.queue[0].errorKind).toBe('client')
+
+    rerender({ isOnline: false })
+    rerender({ isOnline: true })
+
+    expect(result.current.queue[0].status).toBe('failed')
+    expect(requestSummary).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,170 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import {
+  AgentEndpoint,
+  AnalysisOptions,
+  PendingAnalysis,
+  PromptTemplate,
+  RetryPolicy,
+  SummaryData
+} from '../types'
+import { requestSummary } from '../utils/agentClient'
+import {
+  AbortScope,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  createAbortScope
+} from '../utils/abort'
+import {
+  createPendingAnalysis,
+  loadQueue,
+  moveQueueItem,
+  requeueRetryable,
+  saveQueue
+} from '../utils/offlineQueue'
+import { toAnalysisError } from '../utils/analysisErrors'
+import { DEFAULT_RETRY_POLICY } from '../utils/retryPolicy'
+
+interface UseOfflineQueueOptions {
+  // API可用时自动依次执行排队的请求
+  isOnline: boolean
+  resolveEndpoint: (id?: string) => AgentEndpoint
+  // 单个请求完成后的回调，用于写入历史记录
+  onResult: (url: string, data: SummaryData) => Promise<unknown>
+  retryPolicy?: RetryPolicy
+  timeoutMs?: number
+}
+
+export const useOfflineQueue = ({
+  isOnline,
+  resolveEndpoint,
+  onResult,
+  retryPolicy = DEFAULT_RETRY_POLICY,
+  timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+}: UseOfflineQueueOptions) => {
+  const [queue, setQueueState] = useState<PendingAnalysis[]>(loadQueue)
+  const [isProcessing, setIsProcessing] = useState(false)
+  // 执行循环需要读取最新的队列顺序和在线状态
+  const queueRef = useRef(queue)
+  const isOnlineRef = useRef(isOnline)
+  const wasOnlineRef = useRef(isOnline)
+  const processingRef = useRef(false)
+  const scopeRef = useRef<{ id: string; scope: AbortScope } | null>(null)
+
+  isOnlineRef.current = isOnline
+
+  const setQueue = useCallback(
+    (update: (prev: PendingAnalysis[]) => PendingAnalysis[]) => {
+      queueRef.current = update(queueRef.current)
+      setQueueState(queueRef.current)
+      saveQueue(queueRef.current)
+    },
+    []
+  )
+
+  const updateItem = useCallback(
+    (id: string, changes: Partial<PendingAnalysis>) => {
+      setQueue((prev) =>
+        prev.map((item) => (item.id === id ? { ...item, ...changes } : item))
+      )
+    },
+    [setQueue]
+  )
+
+  const enqueue = useCallback(
+    (
+      url: string,
+      options: AnalysisOptions,
+      template: PromptTemplate,
+      endpoint: AgentEndpoint
+    ) => {
+      setQueue((prev) => [
+        ...prev,
+        createPendingAnalysis(url, options, template, endpoint)
+      ])
+    },
+    [setQueue]
+  )
+
+  // 按队列顺序逐个执行，离线后停止，剩余条目等待下次恢复在线
+  const process = useCallback(async () => {
+    if (processingRef.current) return
+    processingRef.current = true
+    setIsProcessing(true)
+
+    try {
+      while (isOnlineRef.current) {
+        const next = queueRef.current.find((item) => item.status === 'pending')
+        if (!next) break
+
+        updateItem(next.id, { status: 'running', error: undefined, errorKind: undefined })
+        const scope = createAbortScope(timeoutMs)
+        scopeRef.current = { id: next.id, scope }
+
+        try {
+          const { data } = await requestSummary(
+            next.url,
+            scope.signal,
+            undefined,
+            next.options,
+            next.template,
+            resolveEndpoint(next.endpointId),
+            retryPolicy
+          )
+          await onResult(next.url, data)
+          setQueue((prev) => prev.filter((item) => item.id !== next.id))
+        } catch (err) {
+          console.error('离线队列分析失败:', err)
+          updateItem(next.id, {
+            status: 'failed',
+            error: err instanceof Error ? err.message : String(err),
+            errorKind: toAnalysisError(err).kind
+          })
+        } finally {
+          scope.dispose()
+          scopeRef.current = null
+        }
+      }
+    } finally {
+      processingRef.current = false
+      setIsProcessing(false)
+    }
+  }, [timeoutMs, resolveEndpoint, onResult, retryPolicy, updateItem, setQueue])
+
+  // 在线期间因网络中断等原因失败的条目，恢复在线后重新排队
+  useEffect(() => {
+    if (isOnline && !wasOnlineRef.current) setQueue(requeueRetryable)
+    wasOnlineRef.current = isOnline
+  }, [isOnline, setQueue])
+
+  const hasPending = queue.some((item) => item.status === 'pending')
+
+  // 恢复在线或有新的待处理条目时自动开始
+  useEffect(() => {
+    if (isOnline && hasPending) process()
+  }, [isOnline, hasPending, process])
+
+  // 组件卸载时取消正在执行的请求，条目在下次加载时恢复为待处理
+  useEffect(() => () => scopeRef.current?.scope.cancel(), [])
+
+  const move = useCallback(
+    (id: string, direction: -1 | 1) => {
+      setQueue((prev) => moveQueueItem(prev, id, direction))
+    },
+    [setQueue]
+  )
+
+  // 移除正在执行的条目时同时取消请求
+  const remove = useCallback(
+    (id: string) => {
+      if (scopeRef.current?.id === id) scopeRef.current.scope.cancel()
+      setQueue((prev) => prev.filter((item) => item.id !== id))
+    },
+    [setQueue]
+  )
+
+  const retry = useCallback(
+    (id: string) => updateItem(id, { status: 'pending', error: undefined, errorKind: undefined }),
+    [updateItem]
+  )
+
+  return { queue, isProcessing, enqueue, move, remove, retry }
+}
@@ -0,0 +1,88 @@
+import { useState, useCallback, useEffect } from 'react'
+import { PromptTemplate } from '../types'
+import {
+  DEFAULT_TEMPLATE,
+  createTemplateId,
+  loadTemplates,
+  saveTemplates
+} from '../utils/promptTemplates'
+
+export type TemplateDraft = Pick<PromptTemplate, 'name' | 'description' | 'body'>
+
+export const usePromptTemplates = () => {
+  const [state, setState] = useState(loadTemplates)
+  const { templates, selectedId } = state
+
+  useEffect(() => {
+    saveTemplates(state)
+  }, [state])
+
+  const selectedTemplate =
+    templates.find((t) => t.id === selectedId) || DEFAULT_TEMPLATE
+
+  const selectTemplate = useCallback((id: string) => {
+    setState((prev) => ({ ...prev, selectedId: id }))
+  }, [])
+
+  const createTemplate = useCallback((draft: TemplateDraft) => {
+    const template: PromptTemplate = {
+      ...draft,
+      id: createTemplateId(),
+      version: 1,
+      builtIn: false,
+      updatedAt: new Date().toISOString()
+    }
+    setState((prev) => ({ ...prev, templates: [...prev.templates, template] }))
+    return template
+  }, [])
+
+  // 内置模板不可修改；内容有变化时版本号加一
+  const updateTemplate = useCallback((id: string, draft: TemplateDraft) => {
+    setState((prev) => ({
+      ...prev,
+      templates: prev.templates.map((t) => {
+        if (t.id !== id || t.builtIn) return t
+        const changed =
+          t.name !== draft.name ||
+          (t.description || '') !== (draft.description || '') ||
+          t.body !== draft.body
+        return changed
+          ? {
+              ...t,
+              ...draft,
+              version: t.version + 1,
+              updatedAt: new Date().toISOString()
+            }
+          : t
+      })
+    }))
+  }, [])
+
+  const duplicateTemplate = useCallback(
+    (template: PromptTemplate) =>
+      createTemplate({
+        name: `${template.name}（副本）`,
+        description: template.description,
+        body: template.body
+      }),
+    [createTemplate]
+  )
+
+  // 删除当前选中的模板时回退到默认模板
+  const deleteTemplate = useCallback((id: string) => {
+    setState((prev) => ({
+      templates: prev.templates.filter((t) => t.id !== id || t.builtIn),
+      selectedId: prev.selectedId === id ? DEFAULT_TEMPLATE.id : prev.selectedId
+    }))
+  }, [])
+
+  return {
+    templates,
+    selectedTemplate,
+    selectTemplate,
+    createTemplate,
+    updateTemplate,
+    duplicateTemplate,
+    deleteTemplate
+  }
+}
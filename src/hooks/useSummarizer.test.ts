@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { SummaryData } from '../types'
+import { getAgent, requestSummaryWithFallback } from '../utils/agentClient'
+import { NO_RETRY_POLICY } from '../utils/retryPolicy'
+import { useSummarizer } from './useSummarizer'
+
+vi.mock('../utils/agentClient', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/agentClient')>()),
+  getAgent: vi.fn(),
+  requestSummaryWithFallback: vi.fn()
+}))
+
+const URL = 'https://example.com/article'
+
+const summary: SummaryData = {
+  title: '示例网页',
+  summary: '一段摘要',
+  keyPoints: ['要点'],
+  keywords: ['示例'],
+  highlights: [],
+  readingTime: '1分钟'
+}
+
+// 只实现stream的Agent，流式响应为给定的响应体或失败
+const mockStream = (stream: () => Promise<unknown>) =>
+  vi.mocked(getAgent).mockReturnValue({ stream } as unknown as ReturnType<typeof getAgent>)
+
+const render = () =>
+  renderHook(() => useSummarizer({ retryPolicy: NO_RETRY_POLICY, cacheTtlHours: 0 }))
+
+describe('useSummarizer.analyzePageStream', () => {
+  beforeEach(() => {
+    vi.mocked(getAgent).mockReset()
+    vi.mocked(requestSummaryWithFallback).mockReset()
+    vi.mocked(requestSummaryWithFallback).mockResolvedValue({ data: summary, warnings: [], responseChars: 0 })
+  })
+
+  it('请求流式响应失败时回退到普通分析', async () => {
+    mockStream(() => Promise.reject(new TypeError('Failed to fetch')))
+    const { result } = render()
+
+    await act(async () => {
+      await result.current.analyzePageStream(URL)
+    })
+
+    expect(requestSummaryWithFallback).toHaveBeenCalledTimes(1)
+    expect(result.current.currentData?.title).toBe('示例网页')
+    expect(result.current.isStreaming).toBe(false)
+  })
+
+  it('流中出现错误事件时回退到普通分析', async () => {
+    mockStream(async () => new Response('data: {"type":"error","payload":{"error":"overloaded"}}\n\n'))
+    const { result } = render()
+
+    await act(async () => {
+      await result.current.analyzePageStream(URL)
+    })
+
+    expect(requestSummaryWithFallback).toHaveBeenCalledTimes(1)
+  })
+
+  it('流完整结束但输出无法解析时直接给出错误，不再重新生成', async () => {
+    mockStream(async () => new Response('data: [DONE]\n\n'))
+    const { result } = render()
+
+    await act(async () => {
+      await result.current.analyzePageStream(URL)
+    })
+
+    expect(requestSummaryWithFallback).not.toHaveBeenCalled()
+    expect(result.current.error?.kind).toBe('malformed-output')
+    expect(result.current.isStreaming).toBe(false)
+  })
+
+  it('Agent报告无法读取网页时直接给出错误', async () => {
+    mockStream(async () => new Response('无法访问该网页：403 Forbidden'))
+    const { result } = render()
+
+    await act(async () => {
+      await result.current.analyzePageStream(URL)
+    })
+
+    expect(requestSummaryWithFallback).not.toHaveBeenCalled()
+    expect(result.current.error?.kind).toBe('target-unreachable')
+  })
+})
@@ -1,326 +1,586 @@
-import { useState, useCallback } from 'react'
-import { MastraClient } from '@mastra/client-js'
-import { SummaryData, LoadingState, AnalysisHistory } from '../types'
+import { useState, useCallback, useEffect, useRef } from 'react'
+import {
+  SummaryData,
+  LoadingState,
+  AnalysisHistory,
+  AgentEndpoint,
+  AnalysisOptions,
+  AnalysisTarget,
+  AttemptRecord,
+  ChatMessage,
+  ParseWarning,
+  PromptTemplate,
+  RetryPolicy
+} from '../types'
 import { storage } from '../utils/storage'
+import {
+  parseAgentResponse,
+  parsePartialSummary
+} from '../utils/responseParser'
+import { getAgent, requestSummaryWithFallback } from '../utils/agentClient'
+import { ENV_ENDPOINT, toEndpointRef } from '../utils/endpoints'
+import { DEFAULT_ANALYSIS_OPTIONS } from '../utils/analysisOptions'
+import {
+  DEFAULT_TEMPLATE,
+  buildGenerateOptions,
+  buildMessages,
+  toTemplateRef
+} from '../utils/promptTemplates'
+import { createProgressTracker, idleLoadingState } from '../utils/progress'
+import { readStreamChunks } from '../utils/streamAdapter'
+import { DEFAULT_RETRY_POLICY, withRetry } from '../utils/retryPolicy'
+import {
+  DEFAULT_CACHE_TTL_HOURS,
+  cacheKeyForData,
+  createCacheKey,
+  getCachedResult,
+  putCachedResult
+} from '../utils/resultCache'
+import {
+  AbortScope,
+  AnalysisAbortedError,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  createAbortScope,
+  raceWithSignal,
+  throwIfAborted
+} from '../utils/abort'
+import {
+  AnalysisError,
+  InvalidInputError,
+  InvalidUrlError,
+  StorageError,
+  toAnalysisError
+} from '../utils/analysisErrors'
+import { applyTextSource, targetId } from '../utils/textSources'
+import { isHttpUrl } from '../utils/urls'
+
+interface UseSummarizerOptions {
+  // 单次请求超时时间（毫秒），0表示不限制
+  timeoutMs?: number
+  // 结果缓存有效期（小时），0表示不读写缓存
+  cacheTtlHours?: number
+  retryPolicy?: RetryPolicy
+  // 当前端点失败后改用的备用端点
+  fallbackEndpoint?: AgentEndpoint
+}
+
+// 提交前的检查：网址格式或文本内容是否为空
+const validateTarget = (target: AnalysisTarget): AnalysisError | null => {
+  if (typeof target !== 'string') {
+    return target.content.trim() ? null : new InvalidInputError('没有可分析的内容')
+  }
+  return isHttpUrl(target) ? null : new InvalidUrlError(target)
+}
+
+// 流式分析时重新解析部分结果的最小间隔
+const PARTIAL_RENDER_INTERVAL_MS = 100
 
-const API_BASE_URL =
-  import.meta.env.VITE_MASTRA_API_URL || 'http://localhost:3000'
-const AGENT_ID = import.meta.env.VITE_AGENT_ID || 'summarizerAgent'
+// 一次分析的请求参数，用于强制刷新缓存和失败后重试
+interface AnalysisRequest {
+  target: AnalysisTarget
+  options: AnalysisOptions
+  template: PromptTemplate
+  endpoint: AgentEndpoint
+}
 
-export const useSummarizer = () => {
-  const [loadingState, setLoadingState] = useState<LoadingState>({
-    isLoading: false,
-    progress: 0,
-    stage: 'fetching'
-  })
+export const useSummarizer = ({
+  timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+  cacheTtlHours = DEFAULT_CACHE_TTL_HOURS,
+  retryPolicy = DEFAULT_RETRY_POLICY,
+  fallbackEndpoint
+}: UseSummarizerOptions = {}) => {
+  const [loadingState, setLoadingState] =
+    useState<LoadingState>(idleLoadingState)
   const [currentData, setCurrentData] = useState<SummaryData | null>(null)
-  const [error, setError] = useState<string | null>(null)
-  const [history, setHistory] = useState<AnalysisHistory[]>(() =>
-    storage.getHistory()
+  // currentData对应的历史记录，用户编辑高亮或追问时写回
+  const [currentItem, setCurrentItemState] = useState<AnalysisHistory | null>(
+    null
   )
+  const currentItemRef = useRef<AnalysisHistory | null>(null)
+  const [error, setError] = useState<AnalysisError | null>(null)
+  const [warnings, setWarnings] = useState<ParseWarning[]>([])
+  const [history, setHistory] = useState<AnalysisHistory[]>([])
   const [isStreaming, setIsStreaming] = useState(false)
+  // 流式分析过程中已解析出的部分结果
+  const [partialData, setPartialData] = useState<SummaryData | null>(null)
+  // 当前结果来自缓存时的缓存时间
+  const [cachedAt, setCachedAt] = useState<string | null>(null)
+  const cachedRequestRef = useRef<AnalysisRequest | null>(null)
+  // 最近一次发起的分析，失败后可按原参数重试
+  const lastRequestRef = useRef<AnalysisRequest | null>(null)
+  const abortScopeRef = useRef<AbortScope | null>(null)
+
+  // 开始新请求前取消仍在进行的请求
+  const beginRequest = useCallback(() => {
+    abortScopeRef.current?.cancel()
+    abortScopeRef.current?.dispose()
+    const scope = createAbortScope(timeoutMs)
+    abortScopeRef.current = scope
+    return scope
+  }, [timeoutMs])
+
+  const endRequest = useCallback((scope: AbortScope) => {
+    scope.dispose()
+    if (abortScopeRef.current === scope) abortScopeRef.current = null
+  }, [])
 
-  // 初始化MastraClient
-  const client = new MastraClient({
-    baseUrl: API_BASE_URL
-  })
-
-  // 模拟进度更新
-  const simulateProgress = useCallback(
-    (stage: LoadingState['stage'], duration: number) => {
-      return new Promise<void>((resolve) => {
-        let progress = 0
-        const increment = 100 / (duration / 100)
-
-        const timer = setInterval(() => {
-          progress += increment
-          if (progress >= 100) {
-            progress = 100
-            clearInterval(timer)
-            resolve()
-          }
+  // 取消当前进行中的分析
+  const cancelAnalysis = useCallback(() => {
+    abortScopeRef.current?.cancel()
+  }, [])
+
+  // 组件卸载时取消未完成的请求
+  useEffect(() => () => abortScopeRef.current?.cancel(), [])
+
+  // 同时更新ref，保证连续的异步写回基于最新的记录
+  const setCurrentItem = useCallback((item: AnalysisHistory | null) => {
+    currentItemRef.current = item
+    setCurrentItemState(item)
+  }, [])
 
-          setLoadingState((prev) => ({
-            ...prev,
-            progress: Math.min(progress, 100),
-            stage
-          }))
-        }, 100)
-      })
+  const refreshHistory = useCallback(async () => {
+    setHistory(await storage.getHistory())
+  }, [])
+
+  // 首次加载时读取历史记录（含旧数据迁移）
+  useEffect(() => {
+    refreshHistory()
+  }, [refreshHistory])
+
+  // 保存完整结果到历史记录并写入缓存，写入失败时给出提示；返回合并了用户批注的记录。
+  // 缓存键使用请求的端点，未指定时使用结果中记录的端点
+  const saveResult = useCallback(
+    async (
+      url: string,
+      summaryData: SummaryData,
+      requestedEndpoint?: AgentEndpoint
+    ): Promise<AnalysisHistory | null> => {
+      const historyItem: AnalysisHistory = {
+        id: Date.now().toString(),
+        url,
+        title: summaryData.title,
+        summary: summaryData.summary,
+        createdAt: new Date().toISOString(),
+        data: summaryData
+      }
+
+      let saved: AnalysisHistory | null = null
+      try {
+        saved = await storage.saveToHistory(historyItem)
+      } catch (err) {
+        console.error('保存历史记录失败:', err)
+        setError(
+          new StorageError(
+            '分析结果未能保存到历史记录',
+            err instanceof Error ? err.message : String(err)
+          )
+        )
+      }
+      await refreshHistory()
+
+      const key =
+        cacheTtlHours > 0
+          ? cacheKeyForData(url, summaryData, requestedEndpoint)
+          : null
+      if (key) {
+        putCachedResult(
+          {
+            key,
+            url,
+            cachedAt: new Date().toISOString(),
+            data: summaryData,
+            historyId: saved?.id
+          },
+          cacheTtlHours
+        )
+      }
+      return saved
+    },
+    [refreshHistory, cacheTtlHours]
+  )
+
+  // 显示一次分析结果，保存成功时使用带有用户批注的版本
+  const showResult = useCallback(
+    (summaryData: SummaryData, saved: AnalysisHistory | null) => {
+      setCurrentData(saved ? saved.data : summaryData)
+      setCurrentItem(saved)
+      setCachedAt(null)
+      cachedRequestRef.current = null
+    },
+    [setCurrentItem]
+  )
+
+  // 命中未过期的缓存时直接显示，对应的历史记录仍存在时使用带有用户批注的版本
+  const showCachedResult = useCallback(
+    async (request: AnalysisRequest): Promise<SummaryData | null> => {
+      if (cacheTtlHours <= 0) return null
+      const { target, options, template, endpoint } = request
+      const entry = getCachedResult(
+        createCacheKey(targetId(target), options, template, endpoint),
+        cacheTtlHours
+      )
+      if (!entry) return null
+
+      const item = entry.historyId
+        ? (await storage.getHistory()).find(
+            (history) => history.id === entry.historyId
+          ) || null
+        : null
+      setError(null)
+      setWarnings([])
+      showResult(entry.data, item)
+      setCachedAt(entry.cachedAt)
+      cachedRequestRef.current = request
+      return item ? item.data : entry.data
     },
-    []
+    [cacheTtlHours, showResult]
   )
 
-  // 使用MastraClient调用Agent
+  // 使用MastraClient调用Agent，分析对象可以是网页URL或粘贴、上传的文本
   const analyzePage = useCallback(
-    async (url: string): Promise<SummaryData | null> => {
-      if (!url.trim()) {
-        setError('请输入有效的URL')
+    async (
+      target: AnalysisTarget,
+      options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+      template: PromptTemplate = DEFAULT_TEMPLATE,
+      endpoint: AgentEndpoint = ENV_ENDPOINT,
+      // 忽略缓存，重新调用Agent
+      forceRefresh = false,
+      // 流式分析回退到此处时，此前流式步骤的尝试记录
+      priorAttempts: AttemptRecord[] = []
+    ): Promise<SummaryData | null> => {
+      const invalid = validateTarget(target)
+      if (invalid) {
+        setError(invalid)
         return null
       }
+      lastRequestRef.current = { target, options, template, endpoint }
+      // 网页URL或文本内容的合成来源标识，用作缓存和历史记录的url
+      const url = targetId(target)
+
+      if (!forceRefresh) {
+        const cached = await showCachedResult({ target, options, template, endpoint })
+        if (cached) return cached
+      }
+
+      const scope = beginRequest()
+      const tracker = createProgressTracker(setLoadingState)
 
       try {
         setError(null)
-        setLoadingState({ isLoading: true, progress: 0, stage: 'fetching' })
-
-        // 模拟进度
-        await simulateProgress('fetching', 1000)
-        setLoadingState((prev) => ({ ...prev, stage: 'extracting' }))
-        await simulateProgress('extracting', 1000)
-        setLoadingState((prev) => ({ ...prev, stage: 'analyzing' }))
+        setWarnings([])
 
         // 调用MastraClient的Agent
         console.log(
           '正在调用Mastra Agent，URL:',
-          API_BASE_URL,
+          endpoint.baseUrl,
           'Agent ID:',
-          AGENT_ID
+          endpoint.agentId
         )
 
-        const result = await client.getAgent(AGENT_ID).generate({
-          messages: [
-            {
-              role: 'user',
-              content: `请分析这个网页并返回JSON格式的摘要：${url}`
-            }
-          ]
-        })
-
-        await simulateProgress('complete', 500)
-
-        // 解析返回结果
-        let summaryData: SummaryData
-
-        if (typeof result === 'string') {
-          try {
-            // 尝试解析JSON字符串
-            summaryData = JSON.parse(result)
-          } catch (parseError) {
-            console.error('JSON解析失败:', parseError)
-            // 如果解析失败，创建基本结构
-            summaryData = {
-              title: '网页分析结果',
-              summary: result,
-              keyPoints: [],
-              keywords: [],
-              highlights: [],
-              readingTime: '未知',
-              sourceUrl: url
-            }
-          }
-        } else if (result && typeof result === 'object') {
-          // 如果返回的是对象，直接使用并确保包含sourceUrl
-          // 创建基础结构，然后合并result的属性
-          summaryData = {
-            title: '网页分析结果',
-            summary: '无法获取摘要',
-            keyPoints: [],
-            keywords: [],
-            highlights: [],
-            readingTime: '未知',
-            sourceUrl: url,
-            createdAt: new Date().toISOString(),
-            ...result
-          } as SummaryData
-        } else {
-          throw new Error('API返回格式不正确')
-        }
-
-        // 确保数据结构完整
-        if (!summaryData.title) summaryData.title = '网页分析结果'
-        if (!summaryData.summary) summaryData.summary = '无法获取摘要'
-        if (!Array.isArray(summaryData.keyPoints)) summaryData.keyPoints = []
-        if (!Array.isArray(summaryData.keywords)) summaryData.keywords = []
-        if (!Array.isArray(summaryData.highlights)) summaryData.highlights = []
-        if (!summaryData.readingTime) summaryData.readingTime = '未知'
-        if (!summaryData.sourceUrl) summaryData.sourceUrl = url
-        if (!summaryData.createdAt)
-          summaryData.createdAt = new Date().toISOString()
-
-        // 为highlights添加ID（如果没有的话）
-        summaryData.highlights = summaryData.highlights.map(
-          (highlight, index) => ({
-            ...highlight,
-            id: highlight.id || `highlight-${index}`,
-            type: highlight.type || 'important'
-          })
-        )
-
-        // 保存到历史记录
-        const historyItem: AnalysisHistory = {
-          id: Date.now().toString(),
-          url,
-          title: summaryData.title,
-          summary: summaryData.summary,
-          createdAt: new Date().toISOString(),
-          data: summaryData
-        }
-
-        storage.saveToHistory(historyItem)
-        setHistory(storage.getHistory())
-        setCurrentData(summaryData)
+        // 调用Agent并解析校验返回结果，失败时按重试策略重试并回退到备用端点
+        const { data: summaryData, warnings: parseWarnings } =
+          await requestSummaryWithFallback(
+            target,
+            scope.signal,
+            tracker,
+            options,
+            template,
+            endpoint,
+            fallbackEndpoint,
+            retryPolicy,
+            [...priorAttempts]
+          )
+
+        // 只有完整解析的结果才写入历史记录
+        throwIfAborted(scope.signal)
+        showResult(summaryData, await saveResult(url, summaryData, endpoint))
+        setWarnings(parseWarnings)
 
         return summaryData
       } catch (err) {
         console.error('分析失败:', err)
-        let errorMessage = '分析失败，请稍后重试'
-
-        if (err instanceof Error) {
-          if (err.message.includes('fetch')) {
-            errorMessage = '无法连接到服务器，请检查网络连接'
-          } else if (err.message.includes('timeout')) {
-            errorMessage = '请求超时，请稍后重试'
-          } else {
-            errorMessage = err.message
-          }
-        }
-
-        setError(errorMessage)
+        setError(toAnalysisError(err))
         return null
       } finally {
-        setLoadingState({ isLoading: false, progress: 100, stage: 'complete' })
+        endRequest(scope)
+        tracker.finish()
       }
     },
-    [client, simulateProgress]
+    [
+      beginRequest,
+      endRequest,
+      saveResult,
+      showResult,
+      showCachedResult,
+      retryPolicy,
+      fallbackEndpoint
+    ]
   )
 
   // 流式调用Agent（如果支持）
   const analyzePageStream = useCallback(
     async (
-      url: string,
-      onChunk?: (chunk: string) => void
+      target: AnalysisTarget,
+      onChunk?: (chunk: string) => void,
+      options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+      template: PromptTemplate = DEFAULT_TEMPLATE,
+      endpoint: AgentEndpoint = ENV_ENDPOINT,
+      forceRefresh = false
     ): Promise<SummaryData | null> => {
-      if (!url.trim()) {
-        setError('请输入有效的URL')
+      const invalid = validateTarget(target)
+      if (invalid) {
+        setError(invalid)
         return null
       }
+      lastRequestRef.current = { target, options, template, endpoint }
+      // 网页URL或文本内容的合成来源标识，用作缓存和历史记录的url
+      const url = targetId(target)
+
+      if (!forceRefresh) {
+        const cached = await showCachedResult({ target, options, template, endpoint })
+        if (cached) return cached
+      }
+
+      const scope = beginRequest()
+      const tracker = createProgressTracker(setLoadingState)
+      const attempts: AttemptRecord[] = []
 
       try {
         setError(null)
+        setWarnings([])
+        setPartialData(null)
         setIsStreaming(true)
-        setLoadingState({ isLoading: true, progress: 0, stage: 'fetching' })
 
         console.log(
           '正在进行流式分析，URL:',
-          API_BASE_URL,
+          endpoint.baseUrl,
           'Agent ID:',
-          AGENT_ID
+          endpoint.agentId
         )
 
-        // 尝试使用流式API
-        const streamResponse = await client.getAgent(AGENT_ID).stream({
-          messages: [
-            {
-              role: 'user',
-              content: `请分析这个网页并以流式方式返回摘要：${url}`
-            }
-          ]
-        })
-
         let fullResponse = ''
-
-        // 处理流式响应
-        // 检查是否是异步可迭代对象
-        if (
-          streamResponse &&
-          typeof (streamResponse as any)[Symbol.asyncIterator] === 'function'
-        ) {
-          try {
-            for await (const chunk of streamResponse as any) {
-              if (chunk) {
-                fullResponse += chunk
-                onChunk?.(chunk)
-              }
-            }
-          } catch (iteratorError) {
-            console.warn('异步迭代器处理失败，尝试其他方式:', iteratorError)
-            // 回退到其他处理方式
-            if (typeof streamResponse === 'string') {
-              fullResponse = streamResponse
-            } else if (streamResponse && typeof streamResponse === 'object') {
-              fullResponse = JSON.stringify(streamResponse)
-            }
+        let lastRenderAt = 0
+
+        // 累积输出并按间隔刷新部分结果
+        const appendChunk = (chunk: string) => {
+          fullResponse += chunk
+          tracker.received(fullResponse.length)
+          onChunk?.(chunk)
+          const now = Date.now()
+          if (now - lastRenderAt >= PARTIAL_RENDER_INTERVAL_MS) {
+            lastRenderAt = now
+            setPartialData(parsePartialSummary(fullResponse, url))
           }
-        } else if (
-          streamResponse &&
-          typeof (streamResponse as any).processDataStream === 'function'
-        ) {
-          // 如果是 Mastra 特定的流响应格式
-          await (streamResponse as any).processDataStream({
-            onTextPart: (chunk: string) => {
-              fullResponse += chunk
-              onChunk?.(chunk)
+        }
+
+        // 发起流式请求并订阅统一的流事件，流中出现错误时视为本次尝试失败
+        const runStream = async () => {
+          tracker.dispatched()
+          const streamResponse = await raceWithSignal(
+            getAgent(scope.signal, endpoint).stream(
+              buildMessages(target, options, template),
+              buildGenerateOptions(target, options)
+            ),
+            scope.signal
+          )
+          const consumeStream = async () => {
+            for await (const event of readStreamChunks(
+              streamResponse,
+              scope.signal
+            )) {
+              if (event.type === 'chunk') appendChunk(event.content)
+              else if (event.type === 'error') throw new Error(event.content)
             }
-          })
-        } else {
-          // 如果不支持流式，直接使用响应内容
-          if (typeof streamResponse === 'string') {
-            fullResponse = streamResponse
-          } else if (streamResponse && typeof streamResponse === 'object') {
-            fullResponse = JSON.stringify(streamResponse)
           }
+          await raceWithSignal(consumeStream(), scope.signal)
         }
 
-        // 解析最终结果
-        let summaryData: SummaryData
+        // 已经输出内容后不再重试流式请求，直接进入回退链的下一步。
+        // 只有请求或读取流失败时才回退到普通分析，由普通分析重新跟踪进度；此时已确认没有可用缓存
         try {
-          summaryData = JSON.parse(fullResponse)
-        } catch {
-          summaryData = {
-            title: '流式分析结果',
-            summary: fullResponse,
-            keyPoints: [],
-            keywords: [],
-            highlights: [],
-            readingTime: '未知',
-            sourceUrl: url,
-            createdAt: new Date().toISOString()
-          }
+          await withRetry(runStream, {
+            policy: retryPolicy,
+            signal: scope.signal,
+            step: 'stream',
+            endpoint,
+            attempts,
+            canRetry: () => fullResponse === ''
+          })
+        } catch (err) {
+          // 取消或超时不再回退，直接给出错误状态
+          if (err instanceof AnalysisAbortedError) throw err
+          console.error('流式请求失败，回退到普通分析:', err)
+          // 先退出流式状态，回退期间不再显示流式的部分结果
+          setIsStreaming(false)
+          setPartialData(null)
+          endRequest(scope)
+          tracker.finish()
+          return await analyzePage(target, options, template, endpoint, true, attempts)
         }
-
-        // 确保数据完整性
-        if (!summaryData.sourceUrl) summaryData.sourceUrl = url
-        if (!summaryData.createdAt)
-          summaryData.createdAt = new Date().toISOString()
-
-        setCurrentData(summaryData)
+        tracker.responseComplete()
+
+        // 流已完整结束：输出无法解析、Agent无法读取网页等错误重新生成通常同样失败，直接给出
+
+        // 解析并校验最终结果
+        const { data: summaryData, warnings: parseWarnings } =
+          parseAgentResponse(fullResponse, url)
+        if (typeof target !== 'string') applyTextSource(summaryData, target)
+        summaryData.options = options
+        summaryData.template = toTemplateRef(template)
+        summaryData.endpoint = toEndpointRef(endpoint)
+        summaryData.attempts = attempts
+        tracker.parsed()
+
+        // 只有完整解析的结果才写入历史记录
+        throwIfAborted(scope.signal)
+        showResult(summaryData, await saveResult(url, summaryData, endpoint))
+        setWarnings(parseWarnings)
         return summaryData
       } catch (err) {
         console.error('流式分析失败:', err)
-        // 回退到普通分析
-        return await analyzePage(url)
+        setError(toAnalysisError(err))
+        return null
       } finally {
         setIsStreaming(false)
-        setLoadingState({ isLoading: false, progress: 100, stage: 'complete' })
+        setPartialData(null)
+        endRequest(scope)
+        tracker.finish()
       }
     },
-    [client, analyzePage]
+    [
+      beginRequest,
+      endRequest,
+      saveResult,
+      showResult,
+      showCachedResult,
+      analyzePage,
+      retryPolicy
+    ]
   )
 
-  const loadFromHistory = useCallback((item: AnalysisHistory) => {
-    setCurrentData(item.data)
-    setError(null)
-  }, [])
+  // 跳过缓存，按命中缓存时的参数重新分析
+  const refreshCachedResult = useCallback(async () => {
+    const request = cachedRequestRef.current
+    if (!request) return null
+    const { target, options, template, endpoint } = request
+    return analyzePage(target, options, template, endpoint, true)
+  }, [analyzePage])
+
+  // 按最近一次分析的参数重新分析；流式分析失败后同样以普通分析重试
+  const retryLastAnalysis = useCallback(async () => {
+    const request = lastRequestRef.current
+    if (!request) return null
+    const { target, options, template, endpoint } = request
+    return analyzePage(target, options, template, endpoint, true)
+  }, [analyzePage])
+
+  const clearError = useCallback(() => setError(null), [])
+
+  const loadFromHistory = useCallback(
+    (item: AnalysisHistory) => {
+      setCurrentData(item.data)
+      setCurrentItem(item)
+      setCachedAt(null)
+      cachedRequestRef.current = null
+      setError(null)
+      setWarnings([])
+    },
+    [setCurrentItem]
+  )
 
-  const deleteHistoryItem = useCallback((id: string) => {
-    storage.deleteFromHistory(id)
-    setHistory(storage.getHistory())
-  }, [])
+  // 修改当前结果对应的历史记录，结果未保存到历史时只更新内存
+  const updateCurrentItem = useCallback(
+    async (changes: Pick<Partial<AnalysisHistory>, 'data' | 'conversation'>) => {
+      const item = currentItemRef.current
+      if (!item) return
+
+      const updated: AnalysisHistory = { ...item, ...changes }
+      setCurrentItem(updated)
+      try {
+        await storage.updateHistoryItem(updated)
+      } catch (err) {
+        console.error('更新历史记录失败:', err)
+        setError(
+          new StorageError(
+            '修改未能保存到历史记录',
+            err instanceof Error ? err.message : String(err)
+          )
+        )
+      }
+      await refreshHistory()
+    },
+    [setCurrentItem, refreshHistory]
+  )
+
+  // 用户编辑高亮等操作后更新当前结果，并写回对应的历史记录
+  const updateCurrentData = useCallback(
+    async (summaryData: SummaryData) => {
+      setCurrentData(summaryData)
+      await updateCurrentItem({ data: summaryData })
+    },
+    [updateCurrentItem]
+  )
 
-  const clearAllHistory = useCallback(() => {
-    storage.clearHistory()
+  // 回答完成时可能已切换到其他结果，按发起追问时的记录ID写回
+  const saveConversation = useCallback(
+    async (itemId: string, conversation: ChatMessage[]) => {
+      if (currentItemRef.current?.id === itemId) {
+        await updateCurrentItem({ conversation })
+        return
+      }
+      try {
+        await storage.updateConversation(itemId, conversation)
+      } catch (err) {
+        console.error('保存追问对话失败:', err)
+        setError(
+          new StorageError(
+            '追问对话未能保存到历史记录',
+            err instanceof Error ? err.message : String(err)
+          )
+        )
+      }
+      await refreshHistory()
+    },
+    [updateCurrentItem, refreshHistory]
+  )
+
+  // 删除当前结果对应的记录后不再写回，避免记录被重新创建
+  const deleteHistoryItem = useCallback(
+    async (id: string) => {
+      await storage.deleteFromHistory(id)
+      if (currentItemRef.current?.id === id) setCurrentItem(null)
+      await refreshHistory()
+    },
+    [setCurrentItem, refreshHistory]
+  )
+
+  const clearAllHistory = useCallback(async () => {
+    await storage.clearHistory()
+    setCurrentItem(null)
     setHistory([])
-  }, [])
+  }, [setCurrentItem])
 
   return {
     loadingState,
     currentData,
+    currentItem,
     error,
+    warnings,
     history,
     isStreaming,
+    partialData,
+    cachedAt,
     analyzePage,
     analyzePageStream,
+    refreshCachedResult,
+    retryLastAnalysis,
+    clearError,
+    cancelAnalysis,
+    saveResult,
+    refreshHistory,
     loadFromHistory,
+    updateCurrentData,
+    saveConversation,
     deleteHistoryItem,
     clearAllHistory
   }
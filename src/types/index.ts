@@ -6,7 +6,123 @@ export interface SummaryData {
   highlights: HighlightItem[];
   readingTime: string;
   sourceUrl?: string;
+  // 粘贴或上传的内容没有网址，以合成的来源标识代替sourceUrl
+  sourceId?: string;
+  // 上传的文件名或粘贴文本的开头
+  sourceName?: string;
   createdAt?: string;
+  // Agent提取的网页正文，用于在原文中定位高亮
+  sourceText?: string;
+  // 用户删除或改写过的AI高亮原文，重新分析时不再出现
+  dismissedHighlights?: string[];
+  // 生成该结果时使用的分析选项，便于复现
+  options?: AnalysisOptions;
+  // 生成该结果时使用的提示词模板及其版本
+  template?: TemplateRef;
+  // 生成该结果的服务端点与Agent
+  endpoint?: EndpointRef;
+  // 调用Agent的每次尝试，包括重试和回退
+  attempts?: AttemptRecord[];
+}
+
+// 粘贴或上传的文本内容，代替网页URL直接提交给Agent
+export interface TextSource {
+  // 合成的来源标识，例如 text:1a2b3c4d，由内容哈希生成，同时作为历史记录的url
+  id: string;
+  kind: 'paste' | 'file';
+  name: string;
+  content: string;
+}
+
+// 分析对象：网页URL或文本内容
+export type AnalysisTarget = string | TextSource;
+
+// 可按重试策略重试的错误类型：网络不可达、服务端5xx、限流429
+export type RetryableErrorKind = 'network' | 'server' | 'rate-limit';
+
+// 调用Agent失败时的重试与回退策略
+export interface RetryPolicy {
+  // 回退链中每一步的最多尝试次数（含首次）
+  maxAttempts: number;
+  // 指数退避的初始间隔与上限，实际等待时间带随机抖动
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOn: RetryableErrorKind[];
+  // 当前端点的所有尝试都失败后改用的备用端点
+  fallbackEndpointId?: string;
+}
+
+// 回退链中的一次尝试：流式 → 普通生成 → 备用端点
+export interface AttemptRecord {
+  step: 'stream' | 'generate';
+  endpoint: EndpointRef;
+  // 该步骤内的第几次尝试，从1开始
+  attempt: number;
+  startedAt: string;
+  elapsedMs: number;
+  ok: boolean;
+  error?: string;
+  errorKind?: RetryableErrorKind | 'other';
+  // 失败后等待多久进行下一次重试
+  retryDelayMs?: number;
+}
+
+// 分析失败的类型，决定错误卡片的样式和可执行的操作
+export type AnalysisErrorKind =
+  | 'invalid-url'
+  | 'invalid-input'
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'client'
+  | 'server'
+  | 'rate-limit'
+  | 'malformed-output'
+  | 'truncated-output'
+  | 'target-unreachable'
+  | 'storage'
+  | 'unknown';
+
+// 失败后能否重试：立即重试、等待一段时间后重试、需修改输入或设置后再试
+export type ErrorRetryMode = 'now' | 'later' | 'none';
+
+// 运行时配置的Mastra服务端点
+export interface AgentEndpoint {
+  id: string;
+  name: string;
+  baseUrl: string;
+  agentId: string;
+  // 可选的认证请求头，例如 Authorization: Bearer xxx
+  authHeader?: {
+    name: string;
+    value: string;
+  };
+}
+
+// 历史记录中只保存端点标识，不保存认证信息
+export type EndpointRef = Pick<AgentEndpoint, 'id' | 'name' | 'baseUrl' | 'agentId'>;
+
+// 带变量（如{{url}}）的提示词模板
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  body: string;
+  // 每次保存修改后递增
+  version: number;
+  builtIn?: boolean;
+  updatedAt: string;
+}
+
+export type TemplateRef = Pick<PromptTemplate, 'id' | 'name' | 'version'>;
+
+// 用户可配置的分析选项
+export interface AnalysisOptions {
+  length: 'brief' | 'standard' | 'detailed';
+  language: 'zh' | 'en' | 'ja' | 'ko' | 'fr' | 'de' | 'es';
+  focus: 'general' | 'technical' | 'business' | 'academic';
+  maxKeyPoints: number;
+  temperature: number;
 }
 
 export interface HighlightItem {
@@ -16,12 +132,41 @@ export interface HighlightItem {
   context?: string;
   startIndex?: number;
   endIndex?: number;
+  // 缺省为model；user表示用户手动添加
+  author?: 'model' | 'user';
+  // AI高亮被用户修改过
+  editedByUser?: boolean;
+  note?: string;
+}
+
+// 解析Agent响应时产生的警告
+export interface ParseWarning {
+  field: keyof SummaryData | 'response';
+  code:
+    | 'extracted_json'
+    | 'invalid_json'
+    | 'missing_field'
+    | 'coerced_value'
+    | 'invalid_value'
+    | 'dropped_item';
+  message: string;
 }
 
 export interface LoadingState {
   isLoading: boolean;
   progress: number;
   stage: 'fetching' | 'extracting' | 'analyzing' | 'complete';
+  startedAt?: number;
+  elapsedMs?: number;
+  receivedChars?: number;
+  stages?: StageTiming[];
+}
+
+// 单个阶段的耗时记录，用于诊断慢请求
+export interface StageTiming {
+  stage: LoadingState['stage'];
+  startedAt: number;
+  endedAt?: number;
 }
 
 export interface AnalysisHistory {
@@ -31,12 +176,142 @@ export interface AnalysisHistory {
   summary: string;
   createdAt: string;
   data: SummaryData;
+  // 同一URL的版本号（从1开始）及上一版本的记录ID
+  version?: number;
+  previousVersionId?: string;
+  // 针对该页面的追问对话
+  conversation?: ChatMessage[];
+}
+
+// 追问对话中的一条消息
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+}
+
+// 同一URL的所有版本，按创建时间倒序
+export interface HistoryGroup {
+  url: string;
+  latest: AnalysisHistory;
+  versions: AnalysisHistory[];
+}
+
+// 批量分析队列中的单个条目
+export interface BatchItem {
+  id: string;
+  url: string;
+  status: 'queued' | 'running' | 'done' | 'failed';
+  attempts: number;
+  title?: string;
+  error?: string;
+}
+
+export interface BatchOptions {
+  concurrency: number;
+  maxRetries: number;
+}
+
+// API离线时排队等待的分析请求
+export interface PendingAnalysis {
+  id: string;
+  url: string;
+  createdAt: string;
+  status: 'pending' | 'running' | 'failed';
+  options: AnalysisOptions;
+  // 入队时所选模板的快照，之后修改模板不影响排队中的请求
+  template: PromptTemplate;
+  // 执行时按ID查找端点，已删除时使用默认端点
+  endpointId: string;
+  error?: string;
+  // 失败的类型，决定恢复在线时是否自动重新执行
+  errorKind?: AnalysisErrorKind;
+}
+
+// 按规范化URL、端点、模板与分析选项缓存的分析结果
+export interface ResultCacheEntry {
+  key: string;
+  url: string;
+  cachedAt: string;
+  data: SummaryData;
+  // 对应的历史记录，命中时优先使用其中带有用户批注的版本
+  historyId?: string;
+}
+
+// 模型返回的token用量，字段取决于后端是否提供
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+// 对比评测中单个端点的运行结果
+export interface EvaluationRun {
+  endpoint: EndpointRef;
+  status: 'running' | 'done' | 'failed';
+  data?: SummaryData;
+  error?: string;
+  elapsedMs?: number;
+  // 原始响应文本长度
+  responseChars?: number;
+  usage?: TokenUsage;
+}
+
+// 同一URL在两个端点上的对比评测
+export interface Evaluation {
+  id: string;
+  url: string;
+  createdAt: string;
+  options: AnalysisOptions;
+  template: TemplateRef;
+  runs: [EvaluationRun, EvaluationRun];
+  // 用户选择的更优结果：0或1为对应端点，tie表示不相上下
+  preferred?: 0 | 1 | 'tie';
+  note?: string;
+}
+
+// 导入历史记录时处理同URL记录的策略
+export type ImportStrategy = 'keep-newest' | 'keep-existing' | 'keep-both';
+
+export interface ImportIssue {
+  index: number;
+  url?: string;
+  reason: string;
+}
+
+export interface ImportPreview {
+  total: number;
+  valid: AnalysisHistory[];
+  rejected: ImportIssue[];
+  // 与现有记录URL相同的条目数
+  conflicts: number;
+}
+
+export interface ImportReport {
+  accepted: number;
+  deduplicated: ImportIssue[];
+  rejected: ImportIssue[];
+}
+
+// 一次健康检查的结果
+export interface HealthSample {
+  checkedAt: string;
+  ok: boolean;
+  // 响应耗时（毫秒），超时或网络错误时为空
+  latency?: number;
+  error?: string;
 }
 
 export interface ApiStatus {
-  status: 'online' | 'offline' | 'unknown';
+  // degraded：服务可用但响应慢或最近出现过失败
+  status: 'online' | 'degraded' | 'offline' | 'unknown';
   lastChecked?: string;
   latency?: number;
+  consecutiveFailures: number;
+  nextCheckAt?: string;
+  // 最近的检查记录，按时间正序
+  samples: HealthSample[];
 }
 
 export interface StreamChunk {
@@ -46,19 +321,19 @@ export interface StreamChunk {
 }
 
 // Mastra Agent相关类型
-export interface MastraMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-}
+// 按role区分的消息，与客户端的消息类型一致
+export type MastraMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string };
 
-export interface MastraGenerateOptions {
-  messages: MastraMessage[];
-  stream?: boolean;
+// 随请求发送的模型参数，服务端传给模型提供方
+export interface MastraModelSettings {
   temperature?: number;
-  max_tokens?: number;
+  maxOutputTokens?: number;
 }
 
-export interface MastraAgent {
-  generate(options: MastraGenerateOptions): Promise<any>;
-  stream(options: MastraGenerateOptions): AsyncIterable<string>;
+// 调用选项，与消息列表分开传入：agent.generate(messages, options)
+export interface MastraGenerateOptions {
+  modelSettings?: MastraModelSettings;
 }
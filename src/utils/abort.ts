@@ -0,0 +1,82 @@
+// 默认单次请求超时时间（毫秒）
+export const DEFAULT_REQUEST_TIMEOUT_MS =
+  Number(import.meta.env.VITE_REQUEST_TIMEOUT_MS) || 60000;
+
+export type AbortReason = 'cancelled' | 'timeout';
+
+// 请求被用户取消或超时时抛出
+export class AnalysisAbortedError extends Error {
+  readonly reason: AbortReason;
+
+  constructor(reason: AbortReason, timeoutMs?: number) {
+    super(
+      reason === 'timeout'
+        ? `请求超时（超过 ${Math.round((timeoutMs ?? 0) / 1000)} 秒未完成）`
+        : '分析已取消'
+    );
+    this.name = 'AnalysisAbortedError';
+    this.reason = reason;
+  }
+}
+
+export interface AbortScope {
+  signal: AbortSignal;
+  cancel(): void;
+  dispose(): void;
+}
+
+// 创建一次分析请求的取消范围：手动取消或超时后触发signal
+export const createAbortScope = (timeoutMs: number): AbortScope => {
+  const controller = new AbortController();
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(
+          () => controller.abort(new AnalysisAbortedError('timeout', timeoutMs)),
+          timeoutMs
+        )
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    cancel() {
+      controller.abort(new AnalysisAbortedError('cancelled'));
+    },
+    dispose() {
+      clearTimeout(timer);
+    }
+  };
+};
+
+const abortError = (signal: AbortSignal) =>
+  signal.reason instanceof AnalysisAbortedError
+    ? signal.reason
+    : new AnalysisAbortedError('cancelled');
+
+// signal已触发时立即抛出
+export const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw abortError(signal);
+};
+
+// 客户端库不一定响应signal，这里保证取消后调用方立刻得到拒绝
+export const raceWithSignal = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal
+): Promise<T> => {
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(signal.aborted ? abortError(signal) : error);
+      }
+    );
+  });
+};
@@ -0,0 +1,195 @@
+import { MastraClient } from '@mastra/client-js';
+import {
+  AgentEndpoint,
+  AnalysisOptions,
+  AnalysisTarget,
+  AttemptRecord,
+  MastraMessage,
+  PromptTemplate,
+  RetryPolicy,
+  TokenUsage
+} from '../types';
+import { parseAgentResponse, ParseResult } from './responseParser';
+import { ProgressTracker } from './progress';
+import { raceWithSignal, throwIfAborted } from './abort';
+import { readStreamChunks } from './streamAdapter';
+import { DEFAULT_ANALYSIS_OPTIONS } from './analysisOptions';
+import {
+  DEFAULT_TEMPLATE,
+  buildGenerateOptions,
+  buildMessages,
+  toTemplateRef
+} from './promptTemplates';
+import { ENV_ENDPOINT, endpointHeaders, toEndpointRef } from './endpoints';
+import {
+  AgentHttpError,
+  DEFAULT_RETRY_POLICY,
+  parseRetryAfter,
+  withRetry
+} from './retryPolicy';
+import { applyTextSource, targetId } from './textSources';
+
+// 非2xx响应转换为AgentHttpError，保留状态码和 Retry-After 供重试策略判断
+const agentFetch: typeof fetch = async (input, init) => {
+  const response = await fetch(input, init);
+  if (response.ok) return response;
+  const body = await response.text().catch(() => '');
+  throw new AgentHttpError(
+    response.status,
+    `HTTP error! status: ${response.status}${body ? ` - ${body.slice(0, 200)}` : ''}`,
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+};
+
+// 为每次请求创建带取消信号的MastraClient；重试由retryPolicy统一处理，关闭客户端自带的重试
+export const createClient = (signal: AbortSignal, endpoint: AgentEndpoint = ENV_ENDPOINT) =>
+  new MastraClient({
+    baseUrl: endpoint.baseUrl,
+    headers: endpointHeaders(endpoint),
+    abortSignal: signal,
+    retries: 0,
+    fetch: agentFetch
+  });
+
+// 客户端的Agent资源：generate(messages, options)；stream的响应由streamAdapter统一转换为StreamChunk
+export const getAgent = (signal: AbortSignal, endpoint: AgentEndpoint = ENV_ENDPOINT) =>
+  createClient(signal, endpoint).getAgent(endpoint.agentId);
+
+// 从generate的返回值中取出文本回答
+const resultText = (result: unknown): string => {
+  if (typeof result === 'string') return result;
+  if (result && typeof (result as { text?: unknown }).text === 'string') {
+    return (result as { text: string }).text;
+  }
+  return result === undefined || result === null ? '' : JSON.stringify(result);
+};
+
+const toCount = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// 读取generate返回值中的token用量，兼容promptTokens与inputTokens两种命名
+const extractUsage = (result: unknown): TokenUsage | undefined => {
+  const usage = (result as { usage?: Record<string, unknown> } | null)?.usage;
+  if (!usage || typeof usage !== 'object') return undefined;
+  const promptTokens = toCount(usage.promptTokens ?? usage.inputTokens);
+  const completionTokens = toCount(usage.completionTokens ?? usage.outputTokens);
+  const totalTokens =
+    toCount(usage.totalTokens) ??
+    (promptTokens !== undefined && completionTokens !== undefined
+      ? promptTokens + completionTokens
+      : undefined);
+  if (promptTokens === undefined && completionTokens === undefined && totalTokens === undefined) {
+    return undefined;
+  }
+  return { promptTokens, completionTokens, totalTokens };
+};
+
+export interface SummaryResponse extends ParseResult {
+  // 原始响应文本长度
+  responseChars: number;
+  usage?: TokenUsage;
+}
+
+// 调用Agent的generate接口并解析为SummaryData，失败时按重试策略重试；
+// 结果中记录所用的分析选项、模板版本、端点以及所有尝试。target可以是网页URL或文本内容
+export const requestSummary = async (
+  target: AnalysisTarget,
+  signal: AbortSignal,
+  tracker?: ProgressTracker,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+  template: PromptTemplate = DEFAULT_TEMPLATE,
+  endpoint: AgentEndpoint = ENV_ENDPOINT,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  attempts: AttemptRecord[] = []
+): Promise<SummaryResponse> => {
+  const result = await withRetry(
+    () => {
+      tracker?.dispatched();
+      return raceWithSignal(
+        getAgent(signal, endpoint).generate(
+          buildMessages(target, options, template),
+          buildGenerateOptions(target, options)
+        ),
+        signal
+      );
+    },
+    { policy, signal, step: 'generate', endpoint, attempts }
+  );
+  tracker?.responseComplete();
+
+  const parsed = parseAgentResponse(result, targetId(target));
+  if (typeof target !== 'string') applyTextSource(parsed.data, target);
+  parsed.data.options = options;
+  parsed.data.template = toTemplateRef(template);
+  parsed.data.endpoint = toEndpointRef(endpoint);
+  parsed.data.attempts = attempts;
+  tracker?.parsed();
+  return { ...parsed, responseChars: resultText(result).length, usage: extractUsage(result) };
+};
+
+// 回退链：当前端点的所有尝试失败后改用备用端点，取消或超时时立即停止
+export const requestSummaryWithFallback = async (
+  target: AnalysisTarget,
+  signal: AbortSignal,
+  tracker: ProgressTracker | undefined,
+  options: AnalysisOptions,
+  template: PromptTemplate,
+  endpoint: AgentEndpoint,
+  fallbackEndpoint: AgentEndpoint | undefined,
+  policy: RetryPolicy,
+  attempts: AttemptRecord[] = []
+): Promise<SummaryResponse> => {
+  const chain =
+    fallbackEndpoint && fallbackEndpoint.id !== endpoint.id ? [endpoint, fallbackEndpoint] : [endpoint];
+  let lastError: unknown;
+
+  for (const next of chain) {
+    try {
+      return await requestSummary(target, signal, tracker, options, template, next, policy, attempts);
+    } catch (error) {
+      throwIfAborted(signal);
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+// 以流式方式发送多轮对话，逐段回调文本；流式接口不可用时回退到generate
+export const streamChat = async (
+  messages: MastraMessage[],
+  signal: AbortSignal,
+  onText: (chunk: string) => void,
+  endpoint: AgentEndpoint = ENV_ENDPOINT
+): Promise<string> => {
+  const agent = getAgent(signal, endpoint);
+  let fullText = '';
+  const append = (chunk: unknown) => {
+    if (signal.aborted || typeof chunk !== 'string' || !chunk) return;
+    fullText += chunk;
+    onText(chunk);
+  };
+
+  try {
+    const response = await raceWithSignal(
+      agent.stream(messages),
+      signal
+    );
+
+    const consume = async () => {
+      for await (const event of readStreamChunks(response, signal)) {
+        if (event.type === 'chunk') append(event.content);
+        else if (event.type === 'error') throw new Error(event.content);
+      }
+    };
+    await raceWithSignal(consume(), signal);
+  } catch (error) {
+    throwIfAborted(signal);
+    // 已经输出部分内容时不再重试，避免回答重复
+    if (fullText) throw error;
+    const result = await raceWithSignal(agent.generate(messages), signal);
+    append(resultText(result));
+  }
+
+  throwIfAborted(signal);
+  return fullText;
+};
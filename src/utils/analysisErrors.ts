@@ -0,0 +1,208 @@
+import { AnalysisErrorKind, ErrorRetryMode } from '../types';
+import { AnalysisAbortedError } from './abort';
+import { AgentHttpError, classifyError, errorStatus } from './retryPolicy';
+
+interface AnalysisErrorInit {
+  // 建议用户采取的操作
+  suggestion: string;
+  retry: ErrorRetryMode;
+  // 原始错误信息，供排查问题
+  detail?: string;
+}
+
+// 分析失败的基类：message是给用户看的说明，detail保留原始错误信息
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly suggestion: string;
+  readonly retry: ErrorRetryMode;
+  readonly detail?: string;
+  readonly occurredAt: number;
+
+  constructor(kind: AnalysisErrorKind, message: string, init: AnalysisErrorInit) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.suggestion = init.suggestion;
+    this.retry = init.retry;
+    this.detail = init.detail;
+    this.occurredAt = Date.now();
+  }
+}
+
+export class InvalidUrlError extends AnalysisError {
+  constructor(url: string) {
+    super('invalid-url', url.trim() ? `无法识别的网址：${url.trim()}` : '请输入要分析的网址', {
+      suggestion: '请输入以 http:// 或 https:// 开头的完整网址',
+      retry: 'none'
+    });
+    this.name = 'InvalidUrlError';
+  }
+}
+
+// 粘贴或上传的内容为空、过长或文件类型不支持
+export class InvalidInputError extends AnalysisError {
+  constructor(message: string, suggestion = '请检查粘贴或上传的内容后重新提交') {
+    super('invalid-input', message, { suggestion, retry: 'none' });
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class NetworkError extends AnalysisError {
+  constructor(detail?: string) {
+    super('network', '无法连接到分析服务', {
+      suggestion: '请检查网络连接以及端点地址是否正确，然后重试',
+      retry: 'now',
+      detail
+    });
+    this.name = 'NetworkError';
+  }
+}
+
+export class RequestTimeoutError extends AnalysisError {
+  constructor(message: string) {
+    super('timeout', message, {
+      suggestion: '网页较长或服务繁忙时分析会变慢，可以稍后重试或选择较简短的摘要长度',
+      retry: 'now'
+    });
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class CancelledError extends AnalysisError {
+  constructor() {
+    super('cancelled', '分析已取消', {
+      suggestion: '需要时可以重新开始分析',
+      retry: 'now'
+    });
+    this.name = 'CancelledError';
+  }
+}
+
+const backendSuggestion = (status: number): string => {
+  if (status === 401 || status === 403) return '请在端点设置中检查认证请求头（如API Key）是否正确';
+  if (status === 404) return '请在端点设置中检查服务地址和Agent ID是否正确';
+  if (status >= 500) return '服务端暂时出现故障，请稍后重试或在端点设置中配置备用端点';
+  return '请求未被服务端接受，请检查端点设置和分析选项';
+};
+
+// 服务端拒绝请求：4xx多为配置问题，重试无效；5xx为服务端故障
+export class BackendError extends AnalysisError {
+  readonly status: number;
+
+  constructor(status: number, detail?: string) {
+    const isServer = status >= 500;
+    super(isServer ? 'server' : 'client', `分析服务返回错误（HTTP ${status}）`, {
+      suggestion: backendSuggestion(status),
+      retry: isServer ? 'now' : 'none',
+      detail
+    });
+    this.name = 'BackendError';
+    this.status = status;
+  }
+}
+
+export class RateLimitError extends AnalysisError {
+  // 服务端要求的等待时间，未提供时为undefined
+  readonly retryAfterMs?: number;
+
+  constructor(retryAfterMs?: number, detail?: string) {
+    super('rate-limit', '请求过于频繁，已被分析服务限流', {
+      suggestion:
+        retryAfterMs !== undefined
+          ? `请等待 ${Math.ceil(retryAfterMs / 1000)} 秒后重试`
+          : '请稍等片刻后重试',
+      retry: 'later',
+      detail
+    });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class MalformedOutputError extends AnalysisError {
+  constructor(detail?: string) {
+    super('malformed-output', '模型返回的内容无法解析为摘要', {
+      suggestion: '可以重试一次，或降低模型温度、换用其他提示词模板',
+      retry: 'now',
+      detail
+    });
+    this.name = 'MalformedOutputError';
+  }
+}
+
+// 输出在JSON结束前中断，通常是超过了输出长度上限
+export class TruncatedOutputError extends AnalysisError {
+  constructor(detail?: string) {
+    super('truncated-output', '模型的输出不完整，可能超过了输出长度上限', {
+      suggestion: '可以选择较简短的摘要长度或减少关键要点数量后重试',
+      retry: 'now',
+      detail
+    });
+    this.name = 'TruncatedOutputError';
+  }
+}
+
+// Agent无法读取目标网页：网站拒绝访问、需要登录、域名无法解析等
+export class TargetUnreachableError extends AnalysisError {
+  constructor(detail?: string) {
+    super('target-unreachable', 'Agent无法读取该网页的内容', {
+      suggestion: '网页可能需要登录、屏蔽了自动访问或已失效，可以复制网页正文后用「粘贴文本」分析',
+      retry: 'none',
+      detail
+    });
+    this.name = 'TargetUnreachableError';
+  }
+}
+
+// 分析本身成功，但结果或修改未能写入本地存储
+export class StorageError extends AnalysisError {
+  constructor(message: string, detail?: string) {
+    super('storage', message, {
+      suggestion: '浏览器存储空间可能已满，可以导出并清理部分历史记录',
+      retry: 'none',
+      detail
+    });
+    this.name = 'StorageError';
+  }
+}
+
+// Agent或其抓取工具报告目标网页无法访问时的常见说法
+const TARGET_FAILURE =
+  /ENOTFOUND|ECONNREFUSED|EAI_AGAIN|getaddrinfo|CERT_|captcha|access denied|403 forbidden|(无法|不能)(访问|打开|获取|抓取|读取)(该|此|目标|这个)?(网页|页面|网站|链接|网址|URL)|(网页|页面|网站).{0,8}(拒绝访问|需要登录|禁止访问)/i;
+
+// 只检查开头部分，避免把正文中恰好提到这些词的摘要误判为失败
+export const describesTargetFailure = (text: string): boolean =>
+  TARGET_FAILURE.test(text.slice(0, 300));
+
+const messageOf = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// 将任意异常归类为带有用户提示的AnalysisError
+export const toAnalysisError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+  if (error instanceof AnalysisAbortedError) {
+    return error.reason === 'timeout' ? new RequestTimeoutError(error.message) : new CancelledError();
+  }
+
+  const detail = messageOf(error);
+  const status = errorStatus(error);
+  if (status !== undefined) {
+    // 抓取目标网页失败时服务端通常返回5xx，错误信息中带有原因
+    if (status >= 500 && describesTargetFailure(detail)) return new TargetUnreachableError(detail);
+    if (status === 429) {
+      return new RateLimitError(
+        error instanceof AgentHttpError ? error.retryAfterMs : undefined,
+        detail
+      );
+    }
+    return new BackendError(status, detail);
+  }
+
+  if (classifyError(error) === 'network') return new NetworkError(detail);
+  if (describesTargetFailure(detail)) return new TargetUnreachableError(detail);
+  return new AnalysisError('unknown', '分析失败', {
+    suggestion: '请稍后重试，如果问题持续出现请检查端点设置',
+    retry: 'now',
+    detail
+  });
+};
@@ -0,0 +1,97 @@
+import { AnalysisOptions } from '../types';
+
+const STORAGE_KEY = 'web-summarizer-analysis-options';
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  length: 'standard',
+  language: 'zh',
+  focus: 'general',
+  maxKeyPoints: 5,
+  temperature: 0.3
+};
+
+export const KEY_POINTS_RANGE = { min: 1, max: 10 };
+export const TEMPERATURE_RANGE = { min: 0, max: 1, step: 0.1 };
+
+// maxTokens限制的是整个JSON响应（标题、要点、关键词、高亮等），不只是摘要正文，需留足余量
+export const LENGTH_OPTIONS: Record<
+  AnalysisOptions['length'],
+  { label: string; instruction: string; maxTokens: number }
+> = {
+  brief: { label: '简要', instruction: '2-3句话，不超过100字', maxTokens: 2000 },
+  standard: { label: '标准', instruction: '一段话，约150-250字', maxTokens: 3000 },
+  detailed: { label: '详细', instruction: '分为多段，约400-600字', maxTokens: 5000 }
+};
+
+// 分析网页时Agent随摘要返回正文（sourceText）供原文阅读区使用，限制其长度并为其预留输出token
+export const SOURCE_TEXT_MAX_CHARS = 6000;
+export const SOURCE_TEXT_MAX_TOKENS = 8000;
+
+export const LANGUAGE_OPTIONS: Record<AnalysisOptions['language'], { label: string; name: string }> = {
+  zh: { label: '中文', name: '简体中文' },
+  en: { label: 'English', name: '英文' },
+  ja: { label: '日本語', name: '日文' },
+  ko: { label: '한국어', name: '韩文' },
+  fr: { label: 'Français', name: '法文' },
+  de: { label: 'Deutsch', name: '德文' },
+  es: { label: 'Español', name: '西班牙文' }
+};
+
+export const FOCUS_OPTIONS: Record<AnalysisOptions['focus'], { label: string; instruction?: string }> = {
+  general: { label: '通用' },
+  technical: { label: '技术', instruction: '侧重技术细节、实现方式、架构与技术取舍' },
+  business: { label: '商业', instruction: '侧重商业价值、市场、成本收益与决策影响' },
+  academic: { label: '学术', instruction: '侧重研究问题、方法、证据与结论的可靠性' }
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const pick = <T extends string>(value: unknown, options: Record<T, unknown>, fallback: T): T =>
+  typeof value === 'string' && value in options ? (value as T) : fallback;
+
+// 修正不完整或越界的选项（来自本地存储或导入的记录）
+export const normalizeAnalysisOptions = (value: unknown): AnalysisOptions => {
+  const raw = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+  const defaults = DEFAULT_ANALYSIS_OPTIONS;
+  const maxKeyPoints = Number(raw.maxKeyPoints);
+  const temperature = Number(raw.temperature);
+
+  return {
+    length: pick(raw.length, LENGTH_OPTIONS, defaults.length),
+    language: pick(raw.language, LANGUAGE_OPTIONS, defaults.language),
+    focus: pick(raw.focus, FOCUS_OPTIONS, defaults.focus),
+    maxKeyPoints: Number.isFinite(maxKeyPoints)
+      ? clamp(Math.round(maxKeyPoints), KEY_POINTS_RANGE.min, KEY_POINTS_RANGE.max)
+      : defaults.maxKeyPoints,
+    temperature: Number.isFinite(temperature)
+      ? clamp(Math.round(temperature * 10) / 10, TEMPERATURE_RANGE.min, TEMPERATURE_RANGE.max)
+      : defaults.temperature
+  };
+};
+
+// 读取上次使用的选项
+export const loadAnalysisOptions = (): AnalysisOptions => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? normalizeAnalysisOptions(JSON.parse(stored)) : DEFAULT_ANALYSIS_OPTIONS;
+  } catch {
+    return DEFAULT_ANALYSIS_OPTIONS;
+  }
+};
+
+export const saveAnalysisOptions = (options: AnalysisOptions) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.error('保存分析选项失败:', error);
+  }
+};
+
+// 简短描述，用于在结果中展示生成时的选项
+export const describeAnalysisOptions = (options: AnalysisOptions): string[] => [
+  `${LENGTH_OPTIONS[options.length].label}摘要`,
+  LANGUAGE_OPTIONS[options.language].label,
+  `${FOCUS_OPTIONS[options.focus].label}视角`,
+  `${options.maxKeyPoints}条要点`,
+  `温度 ${options.temperature.toFixed(1)}`
+];
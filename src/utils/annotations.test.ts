@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { HighlightItem, SummaryData } from '../types';
+import { carryOverAnnotations } from './annotations';
+
+const result = (sourceText: string | undefined, highlights: HighlightItem[] = []): SummaryData => ({
+  title: '示例网页',
+  summary: '一段摘要',
+  keyPoints: [],
+  keywords: [],
+  highlights,
+  readingTime: '1分钟',
+  sourceText
+});
+
+const userHighlight = (id: string, text: string, startIndex: number): HighlightItem => ({
+  id,
+  text,
+  type: 'important',
+  author: 'user',
+  note: `${id}的批注`,
+  startIndex,
+  endIndex: startIndex + text.length
+});
+
+const previousSource = '第一段讲背景。核心论点在这里。结尾总结全文。';
+const nextSource = '新增的开头段落。第一段讲背景。核心论点在这里。结尾总结全文。';
+
+const offsetsOf = (data: SummaryData, id: string) => {
+  const highlight = data.highlights.find((h) => h.id === id);
+  return highlight && [highlight.startIndex, highlight.endIndex];
+};
+
+describe('carryOverAnnotations', () => {
+  it('按文本在新原文中重新定位保留的高亮', () => {
+    const previous = result(previousSource, [
+      userHighlight('u1', '核心论点在这里', previousSource.indexOf('核心论点'))
+    ]);
+
+    const merged = carryOverAnnotations(previous, result(nextSource));
+
+    const start = nextSource.indexOf('核心论点');
+    expect(offsetsOf(merged, 'u1')).toEqual([start, start + '核心论点在这里'.length]);
+    expect(merged.highlights[0].note).toBe('u1的批注');
+  });
+
+  it('原文有细微改动时用模糊匹配定位', () => {
+    const previous = result(previousSource, [
+      userHighlight('u1', '核心论点在这里', previousSource.indexOf('核心论点'))
+    ]);
+    const changed = nextSource.replace('核心论点在这里。', '核心论点，在这里！');
+
+    const merged = carryOverAnnotations(previous, result(changed));
+
+    const [start, end] = offsetsOf(merged, 'u1') as number[];
+    expect(changed.slice(start, end)).toBe('核心论点，在这里');
+  });
+
+  it('新原文中找不到的高亮去掉旧偏移量后保留批注', () => {
+    const previous = result(previousSource, [userHighlight('u1', '结尾总结全文', 15)]);
+
+    const merged = carryOverAnnotations(previous, result('内容已经完全不同的新版本网页。'));
+
+    expect(merged.highlights).toHaveLength(1);
+    expect(offsetsOf(merged, 'u1')).toEqual([undefined, undefined]);
+    expect(merged.highlights[0].note).toBe('u1的批注');
+  });
+
+  it('新结果没有原文时去掉旧偏移量', () => {
+    const previous = result(previousSource, [userHighlight('u1', '第一段讲背景', 0)]);
+
+    const merged = carryOverAnnotations(previous, result(undefined));
+
+    expect(offsetsOf(merged, 'u1')).toEqual([undefined, undefined]);
+  });
+
+  it('不与新结果的高亮占用同一段原文', () => {
+    const source = '重要的话说两遍。重要的话说两遍。';
+    const previous = result(source, [userHighlight('u1', '重要的话说两遍', 0)]);
+    const next = result(source, [
+      { id: 'm1', text: '重要的话', type: 'quote', startIndex: 0, endIndex: 4 }
+    ]);
+
+    const merged = carryOverAnnotations(previous, next);
+
+    expect(offsetsOf(merged, 'u1')).toEqual([8, 15]);
+  });
+});
@@ -0,0 +1,132 @@
+import { SummaryData, HighlightItem } from '../types';
+import { mapHighlights } from './highlightMapper';
+
+export type HighlightPatch = Partial<Pick<HighlightItem, 'text' | 'type' | 'note'>>;
+
+const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const isUserHighlight = (highlight: HighlightItem) => highlight.author === 'user';
+
+// 用户修改过的高亮（含用户自己添加的）在重新分析时需要保留
+const isUserAnnotated = (highlight: HighlightItem) =>
+  isUserHighlight(highlight) || highlight.editedByUser === true;
+
+const cleanNote = (note?: string) => note?.trim() || undefined;
+
+const dismiss = (data: SummaryData, text: string): string[] => {
+  const dismissed = data.dismissedHighlights || [];
+  const key = normalizeText(text);
+  return dismissed.some((item) => normalizeText(item) === key)
+    ? dismissed
+    : [...dismissed, text];
+};
+
+export const createUserHighlight = (
+  text: string,
+  type: HighlightItem['type'],
+  note?: string
+): HighlightItem => ({
+  id: `user-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  text: text.trim(),
+  type,
+  author: 'user',
+  note: cleanNote(note)
+});
+
+export const addHighlight = (data: SummaryData, highlight: HighlightItem): SummaryData => ({
+  ...data,
+  highlights: [...data.highlights, highlight]
+});
+
+// 修改AI高亮的文本时记录原文，避免重新分析后原高亮再次出现
+export const updateHighlight = (
+  data: SummaryData,
+  id: string,
+  patch: HighlightPatch
+): SummaryData => {
+  const target = data.highlights.find((h) => h.id === id);
+  if (!target) return data;
+
+  const textChanged = patch.text !== undefined && patch.text.trim() !== target.text;
+  const updated: HighlightItem = {
+    ...target,
+    ...patch,
+    text: patch.text !== undefined ? patch.text.trim() : target.text,
+    note: patch.note !== undefined ? cleanNote(patch.note) : target.note
+  };
+  if (!isUserHighlight(target)) updated.editedByUser = true;
+  // 文本改动后原偏移量失效，交由原文阅读区重新定位
+  if (textChanged) {
+    delete updated.startIndex;
+    delete updated.endIndex;
+  }
+
+  return {
+    ...data,
+    highlights: data.highlights.map((h) => (h.id === id ? updated : h)),
+    dismissedHighlights:
+      textChanged && !isUserHighlight(target)
+        ? dismiss(data, target.text)
+        : data.dismissedHighlights
+  };
+};
+
+export const removeHighlight = (data: SummaryData, id: string): SummaryData => {
+  const target = data.highlights.find((h) => h.id === id);
+  if (!target) return data;
+
+  return {
+    ...data,
+    highlights: data.highlights.filter((h) => h.id !== id),
+    dismissedHighlights: isUserHighlight(target)
+      ? data.dismissedHighlights
+      : dismiss(data, target.text)
+  };
+};
+
+// 旧偏移量对应上一版本的原文，需按文本在新原文中重新定位（精确匹配后模糊匹配）；
+// 找不到的高亮去掉偏移量保留下来，原文阅读区会将其列为未能定位的高亮
+const relocate = (
+  sourceText: string | undefined,
+  modelHighlights: HighlightItem[],
+  carried: HighlightItem[]
+): HighlightItem[] => {
+  const withoutOffsets = carried.map(({ startIndex: _start, endIndex: _end, ...rest }) => rest);
+  if (!sourceText) return withoutOffsets;
+
+  // 与新结果的高亮一起定位，避免与其占用同一段原文
+  const { mapped } = mapHighlights(sourceText, [...modelHighlights, ...withoutOffsets]);
+  const ranges = new Map(mapped.map(({ highlight, start, end }) => [highlight.id, { start, end }]));
+  return withoutOffsets.map((highlight) => {
+    const range = ranges.get(highlight.id);
+    return range ? { ...highlight, startIndex: range.start, endIndex: range.end } : highlight;
+  });
+};
+
+// 重新分析同一URL时，把上一版本的用户批注合并进新结果
+export const carryOverAnnotations = (previous: SummaryData, next: SummaryData): SummaryData => {
+  const kept = previous.highlights.filter(isUserAnnotated);
+  const dismissed = (previous.dismissedHighlights || []).reduce(
+    (list, text) => dismiss({ ...next, dismissedHighlights: list }, text),
+    next.dismissedHighlights || []
+  );
+  if (kept.length === 0 && dismissed.length === 0) return next;
+
+  const hiddenTexts = new Set([...kept.map((h) => h.text), ...dismissed].map(normalizeText));
+  const modelHighlights = next.highlights.filter((h) => !hiddenTexts.has(normalizeText(h.text)));
+
+  // 新结果的高亮ID可能与保留的高亮重复
+  const usedIds = new Set(modelHighlights.map((h) => h.id));
+  const renamed = kept.map((highlight) => {
+    let id = highlight.id;
+    for (let n = 1; usedIds.has(id); n++) id = `${highlight.id}-${n}`;
+    usedIds.add(id);
+    return id === highlight.id ? highlight : { ...highlight, id };
+  });
+
+  return {
+    ...next,
+    highlights: [...modelHighlights, ...relocate(next.sourceText, modelHighlights, renamed)],
+    dismissedHighlights: dismissed.length > 0 ? dismissed : undefined
+  };
+};
@@ -0,0 +1,126 @@
+import { BatchItem, BatchOptions } from '../types';
+import { AnalysisAbortedError } from './abort';
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  concurrency: 3,
+  maxRetries: 2
+};
+
+export const MAX_BATCH_CONCURRENCY = 8;
+
+// 首次重试前的等待时间，之后每次翻倍
+const RETRY_BASE_DELAY_MS = 1000;
+
+// 从粘贴的文本或文件内容中提取去重后的URL列表
+export const extractUrls = (text: string): string[] => {
+  const matches = text.match(/https?:\/\/[^\s<>"'`，。；、]+/g) || [];
+  const urls = matches
+    .map((url) => url.replace(/[)\]}>.,;:!?]+$/, ''))
+    .filter((url) => {
+      try {
+        new URL(url);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+  return Array.from(new Set(urls));
+};
+
+export const createBatchItems = (urls: string[]): BatchItem[] =>
+  urls.map((url, index) => ({
+    id: `${Date.now()}-${index}`,
+    url,
+    status: 'queued',
+    attempts: 0
+  }));
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+interface RunBatchParams<T> {
+  items: BatchItem[];
+  options: BatchOptions;
+  signal: AbortSignal;
+  // 处理单个URL，返回结果与用于展示的标题
+  worker: (
+    url: string,
+    signal: AbortSignal
+  ) => Promise<{ result: T; title: string }>;
+  onItemUpdate: (item: BatchItem) => void;
+  onItemDone: (item: BatchItem, result: T) => void;
+}
+
+// 以固定并发数处理队列，失败的条目按指数退避重试
+export const runBatchQueue = async <T>({
+  items,
+  options,
+  signal,
+  worker,
+  onItemUpdate,
+  onItemDone
+}: RunBatchParams<T>): Promise<void> => {
+  const pending = items.filter((item) => item.status !== 'done');
+  const concurrency = Math.max(
+    1,
+    Math.min(options.concurrency, MAX_BATCH_CONCURRENCY)
+  );
+
+  const processItem = async (source: BatchItem) => {
+    let item: BatchItem = { ...source, error: undefined };
+
+    while (!signal.aborted) {
+      item = { ...item, status: 'running', attempts: item.attempts + 1 };
+      onItemUpdate(item);
+
+      try {
+        const { result, title } = await worker(item.url, signal);
+        item = { ...item, status: 'done', title, error: undefined };
+        onItemUpdate(item);
+        onItemDone(item, result);
+        return;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        const cancelled =
+          err instanceof AnalysisAbortedError && err.reason === 'cancelled';
+        const retriesUsed = item.attempts - source.attempts - 1;
+
+        if (cancelled || signal.aborted || retriesUsed >= options.maxRetries) {
+          item = { ...item, status: 'failed', error: message };
+          onItemUpdate(item);
+          return;
+        }
+
+        item = { ...item, status: 'queued', error: message };
+        onItemUpdate(item);
+        await wait(RETRY_BASE_DELAY_MS * 2 ** retriesUsed, signal);
+      }
+    }
+
+    if (item.status !== 'failed') {
+      onItemUpdate({ ...item, status: 'failed', error: '批量分析已取消' });
+    }
+  };
+
+  let next = 0;
+  const runWorker = async () => {
+    while (next < pending.length && !signal.aborted) {
+      const item = pending[next++];
+      await processItem(item);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, pending.length) }, runWorker)
+  );
+};
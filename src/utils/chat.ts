@@ -0,0 +1,61 @@
+import { ChatMessage, MastraMessage, SummaryData } from '../types';
+
+// 附带的原文上限，避免上下文过长
+const SOURCE_CONTEXT_LIMIT = 8000;
+
+// 每次请求携带的最近对话轮数
+const MAX_HISTORY_MESSAGES = 20;
+
+export const createChatMessage = (
+  role: ChatMessage['role'],
+  content: string
+): ChatMessage => ({
+  id: `${role}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  role,
+  content,
+  createdAt: new Date().toISOString()
+});
+
+// 将摘要结果整理为系统提示，供Agent回答追问
+const buildContext = (data: SummaryData): string => {
+  const lines = [
+    '你正在回答用户关于一个已分析网页的追问。请基于以下分析结果和原文作答，',
+    '若资料中没有答案请直接说明，不要编造。',
+    '',
+    `标题：${data.title}`
+  ];
+
+  if (data.sourceUrl) lines.push(`链接：${data.sourceUrl}`);
+  if (data.sourceName) lines.push(`来源：${data.sourceName}（用户提供的文本）`);
+  lines.push('', '摘要：', data.summary);
+
+  if (data.keyPoints.length > 0) {
+    lines.push('', '关键要点：', ...data.keyPoints.map((point, i) => `${i + 1}. ${point}`));
+  }
+  if (data.keywords.length > 0) {
+    lines.push('', `关键词：${data.keywords.join('、')}`);
+  }
+  if (data.highlights.length > 0) {
+    lines.push('', '重点内容：', ...data.highlights.map((h) => `- ${h.text}`));
+  }
+  if (data.sourceText) {
+    const truncated = data.sourceText.length > SOURCE_CONTEXT_LIMIT;
+    lines.push(
+      '',
+      `原文${truncated ? '（节选）' : ''}：`,
+      data.sourceText.slice(0, SOURCE_CONTEXT_LIMIT)
+    );
+  }
+
+  return lines.join('\n');
+};
+
+export const buildChatRequest = (
+  data: SummaryData,
+  conversation: ChatMessage[]
+): MastraMessage[] => [
+  { role: 'system', content: buildContext(data) },
+  ...conversation
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(({ role, content }) => ({ role, content }))
+];
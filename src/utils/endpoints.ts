@@ -0,0 +1,131 @@
+import { AgentEndpoint, EndpointRef, HealthSample } from '../types';
+
+const STORAGE_KEY = 'web-summarizer-endpoints';
+
+// 未配置任何端点时使用构建时的环境变量
+export const ENV_ENDPOINT: AgentEndpoint = {
+  id: 'env-default',
+  name: '默认端点',
+  baseUrl: import.meta.env.VITE_MASTRA_API_URL || 'http://localhost:3000',
+  agentId: import.meta.env.VITE_AGENT_ID || 'summarizerAgent'
+};
+
+export type EndpointDraft = Omit<AgentEndpoint, 'id'>;
+
+export const createEndpointId = () =>
+  `endpoint-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const normalizeBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+// 校验端点配置，返回错误信息；合法时返回null
+export const validateEndpoint = (draft: EndpointDraft): string | null => {
+  if (!draft.name.trim()) return '请填写端点名称';
+  try {
+    const { protocol } = new URL(draft.baseUrl.trim());
+    if (protocol !== 'http:' && protocol !== 'https:') return '服务地址必须以 http:// 或 https:// 开头';
+  } catch {
+    return '请输入有效的服务地址（例如：http://localhost:3000）';
+  }
+  if (!draft.agentId.trim()) return '请填写Agent ID';
+  if (draft.authHeader && !/^[A-Za-z0-9-]+$/.test(draft.authHeader.name.trim())) {
+    return '请求头名称只能包含字母、数字和连字符';
+  }
+  return null;
+};
+
+// 去除首尾空白；认证请求头的值为空时视为未配置
+export const normalizeEndpointDraft = (draft: EndpointDraft): EndpointDraft => {
+  const authHeader =
+    draft.authHeader && draft.authHeader.value.trim()
+      ? { name: draft.authHeader.name.trim(), value: draft.authHeader.value.trim() }
+      : undefined;
+  return {
+    name: draft.name.trim(),
+    baseUrl: normalizeBaseUrl(draft.baseUrl),
+    agentId: draft.agentId.trim(),
+    authHeader
+  };
+};
+
+export const endpointHeaders = (endpoint: AgentEndpoint): Record<string, string> =>
+  endpoint.authHeader ? { [endpoint.authHeader.name]: endpoint.authHeader.value } : {};
+
+export const toEndpointRef = ({ id, name, baseUrl, agentId }: AgentEndpoint): EndpointRef => ({
+  id,
+  name,
+  baseUrl,
+  agentId
+});
+
+interface StoredEndpoints {
+  endpoints: AgentEndpoint[];
+  defaultId: string;
+}
+
+const isEndpoint = (value: unknown): value is AgentEndpoint => {
+  if (typeof value !== 'object' || value === null) return false;
+  const e = value as Record<string, unknown>;
+  return (
+    typeof e.id === 'string' &&
+    typeof e.name === 'string' &&
+    typeof e.baseUrl === 'string' &&
+    typeof e.agentId === 'string'
+  );
+};
+
+// 读取已注册的端点与默认端点，存储为空时使用环境变量中的配置
+export const loadEndpoints = (): StoredEndpoints => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    const endpoints: AgentEndpoint[] = Array.isArray(stored.endpoints)
+      ? stored.endpoints.filter(isEndpoint)
+      : [];
+    if (endpoints.length === 0) {
+      return { endpoints: [ENV_ENDPOINT], defaultId: ENV_ENDPOINT.id };
+    }
+    const defaultId = endpoints.some((e) => e.id === stored.defaultId)
+      ? stored.defaultId
+      : endpoints[0].id;
+    return { endpoints, defaultId };
+  } catch {
+    return { endpoints: [ENV_ENDPOINT], defaultId: ENV_ENDPOINT.id };
+  }
+};
+
+export const saveEndpoints = (state: StoredEndpoints) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('保存端点配置失败:', error);
+  }
+};
+
+// 请求端点的健康检查接口并计时，超时或网络错误视为不可用
+export const checkEndpointHealth = async (
+  endpoint: AgentEndpoint,
+  timeoutMs = 5000
+): Promise<HealthSample> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const checkedAt = new Date().toISOString();
+  const startedAt = performance.now();
+  try {
+    const response = await fetch(`${endpoint.baseUrl}/health`, {
+      method: 'GET',
+      headers: endpointHeaders(endpoint),
+      signal: controller.signal
+    });
+    const latency = Math.round(performance.now() - startedAt);
+    return response.ok
+      ? { checkedAt, ok: true, latency }
+      : { checkedAt, ok: false, latency, error: `HTTP ${response.status}` };
+  } catch {
+    return {
+      checkedAt,
+      ok: false,
+      error: controller.signal.aborted ? `超过 ${timeoutMs / 1000} 秒未响应` : '网络错误'
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
@@ -0,0 +1,107 @@
+import { Evaluation, EvaluationRun, SummaryData } from '../types';
+
+const STORAGE_KEY = 'web-summarizer-evaluations';
+// localStorage容量有限，只保留最近的评测
+export const EVALUATION_MAX_ITEMS = 100;
+
+export const PREFERENCE_LABELS: Record<NonNullable<Evaluation['preferred']>, string> = {
+  0: 'A 更好',
+  1: 'B 更好',
+  tie: '不相上下'
+};
+
+export const createEvaluationId = () =>
+  `evaluation-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// 结果的长度统计，用于对比两个端点的输出
+export const summaryStats = (data: SummaryData) => ({
+  summaryChars: data.summary.length,
+  keyPoints: data.keyPoints.length,
+  keywords: data.keywords.length,
+  highlights: data.highlights.length
+});
+
+// 保存时去掉原文，避免评测记录占满存储空间
+const compactRun = (run: EvaluationRun): EvaluationRun => {
+  if (!run.data?.sourceText) return run;
+  const { sourceText: _sourceText, ...data } = run.data;
+  return { ...run, data };
+};
+
+const isEvaluation = (value: unknown): value is Evaluation => {
+  if (typeof value !== 'object' || value === null) return false;
+  const e = value as Record<string, unknown>;
+  return (
+    typeof e.id === 'string' &&
+    typeof e.url === 'string' &&
+    typeof e.createdAt === 'string' &&
+    Array.isArray(e.runs) &&
+    e.runs.length === 2
+  );
+};
+
+export const loadEvaluations = (): Evaluation[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isEvaluation) : [];
+  } catch {
+    return [];
+  }
+};
+
+// 只保存已结束的评测，按创建时间倒序截断
+export const saveEvaluations = (evaluations: Evaluation[]) => {
+  const finished = evaluations
+    .filter((e) => e.runs.every((run) => run.status !== 'running'))
+    .slice(0, EVALUATION_MAX_ITEMS)
+    .map((e) => ({ ...e, runs: e.runs.map(compactRun) }));
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(finished));
+  } catch (error) {
+    console.error('保存评测记录失败:', error);
+  }
+};
+
+const toDatasetOutput = (run: EvaluationRun) => ({
+  endpoint: run.endpoint,
+  status: run.status,
+  error: run.error,
+  elapsedMs: run.elapsedMs,
+  responseChars: run.responseChars,
+  usage: run.usage,
+  output: run.data
+    ? {
+        title: run.data.title,
+        summary: run.data.summary,
+        keyPoints: run.data.keyPoints,
+        keywords: run.data.keywords,
+        highlights: run.data.highlights.map(({ text, type }) => ({ text, type })),
+        readingTime: run.data.readingTime
+      }
+    : null
+});
+
+const DATASET_PREFERENCES: Record<NonNullable<Evaluation['preferred']>, string> = {
+  0: 'a',
+  1: 'b',
+  tie: 'tie'
+};
+
+// 导出为JSONL评测数据集，每行一条评测；默认只包含已标注偏好的记录
+export const toEvaluationJsonl = (evaluations: Evaluation[], ratedOnly = true): string =>
+  evaluations
+    .filter((e) => !ratedOnly || e.preferred !== undefined)
+    .map((e) =>
+      JSON.stringify({
+        id: e.id,
+        url: e.url,
+        createdAt: e.createdAt,
+        options: e.options,
+        template: e.template,
+        preferred: e.preferred === undefined ? null : DATASET_PREFERENCES[e.preferred],
+        note: e.note || undefined,
+        a: toDatasetOutput(e.runs[0]),
+        b: toDatasetOutput(e.runs[1])
+      })
+    )
+    .join('\n');
@@ -0,0 +1,228 @@
+import { SummaryData, HighlightItem } from '../types';
+
+export type ExportFormat = 'markdown' | 'html' | 'print';
+
+const HIGHLIGHT_LABELS: Record<HighlightItem['type'], string> = {
+  important: '重要内容',
+  quote: '引用',
+  statistic: '统计数据',
+  conclusion: '结论'
+};
+
+const HIGHLIGHT_ORDER = Object.keys(HIGHLIGHT_LABELS) as HighlightItem['type'][];
+
+// 按类型分组高亮，保持固定的类型顺序
+const groupHighlights = (highlights: HighlightItem[]) =>
+  HIGHLIGHT_ORDER.map((type) => ({
+    type,
+    label: HIGHLIGHT_LABELS[type],
+    items: highlights.filter((h) => h.type === type)
+  })).filter((group) => group.items.length > 0);
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleString('zh-CN') : '';
+
+// YAML双引号字符串与JSON字符串语法兼容
+const yamlString = (value: string) => JSON.stringify(value);
+
+// 生成适用于Obsidian/Notion的Markdown，包含YAML front-matter
+export const toMarkdown = (data: SummaryData): string => {
+  const lines: string[] = ['---', `title: ${yamlString(data.title)}`];
+
+  if (data.sourceUrl) lines.push(`source: ${yamlString(data.sourceUrl)}`);
+  if (data.sourceName) lines.push(`source_name: ${yamlString(data.sourceName)}`);
+  if (data.createdAt) lines.push(`created: ${data.createdAt}`);
+  lines.push(`reading_time: ${yamlString(data.readingTime)}`);
+  if (data.keywords.length > 0) {
+    lines.push('tags:');
+    data.keywords.forEach((keyword) => lines.push(`  - ${yamlString(keyword)}`));
+  }
+  lines.push('---', '', `# ${data.title}`, '');
+
+  if (data.sourceUrl) lines.push(`原文链接：<${data.sourceUrl}>`, '');
+  if (data.sourceName) lines.push(`来源：${data.sourceName}`, '');
+
+  lines.push('## 内容摘要', '', data.summary, '');
+
+  if (data.keyPoints.length > 0) {
+    lines.push('## 关键要点', '');
+    data.keyPoints.forEach((point, index) => lines.push(`${index + 1}. ${point}`));
+    lines.push('');
+  }
+
+  if (data.keywords.length > 0) {
+    lines.push('## 关键词', '', data.keywords.map((k) => `\`${k}\``).join(' '), '');
+  }
+
+  const groups = groupHighlights(data.highlights);
+  if (groups.length > 0) {
+    lines.push('## 内容高亮', '');
+    groups.forEach((group) => {
+      lines.push(`### ${group.label}`, '');
+      group.items.forEach((item) => {
+        lines.push(`> ${item.text.replace(/\n+/g, ' ')}`);
+        if (item.context) lines.push('>', `> *上下文：${item.context}*`);
+        if (item.note) lines.push('>', `> **批注：** ${item.note}`);
+        lines.push('');
+      });
+    });
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; color: #1f2937; max-width: 760px; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.7; }
+  h1 { font-size: 1.75rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.2rem; margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  h3 { font-size: 1rem; color: #4b5563; }
+  .meta { color: #6b7280; font-size: 0.875rem; }
+  .meta a { color: #2563eb; }
+  ol li { margin-bottom: 0.5rem; }
+  .keywords span { display: inline-block; background: #dbeafe; color: #1e40af; border-radius: 9999px; padding: 0.1rem 0.75rem; margin: 0 0.25rem 0.5rem 0; font-size: 0.875rem; }
+  blockquote { margin: 0 0 1rem; padding: 0.5rem 1rem; border-left: 3px solid #9ca3af; background: #f9fafb; }
+  blockquote.important { border-color: #dc2626; }
+  blockquote.quote { border-color: #2563eb; }
+  blockquote.statistic { border-color: #16a34a; }
+  blockquote.conclusion { border-color: #9333ea; }
+  blockquote small { display: block; color: #6b7280; margin-top: 0.25rem; }
+  @media print {
+    @page { margin: 18mm 16mm; }
+    body { margin: 0; max-width: none; font-size: 11pt; }
+    a { color: inherit; text-decoration: none; }
+    .meta a::after { content: " (" attr(href) ")"; word-break: break-all; }
+    h2, h3 { break-after: avoid; }
+    blockquote, li { break-inside: avoid; }
+    .keywords span { border: 1px solid #93c5fd; background: none; }
+  }
+`;
+
+// 生成独立的HTML文档，内置打印样式
+export const toHtml = (data: SummaryData): string => {
+  const meta = [
+    data.sourceUrl
+      ? `<a href="${escapeHtml(data.sourceUrl)}">${escapeHtml(data.sourceUrl)}</a>`
+      : '',
+    data.sourceName ? `来源：${escapeHtml(data.sourceName)}` : '',
+    `阅读时长：${escapeHtml(data.readingTime)}`,
+    data.createdAt ? `分析时间：${escapeHtml(formatDate(data.createdAt))}` : ''
+  ].filter(Boolean);
+
+  const sections: string[] = [
+    `<h1>${escapeHtml(data.title)}</h1>`,
+    `<p class="meta">${meta.join(' · ')}</p>`,
+    '<h2>内容摘要</h2>',
+    ...data.summary
+      .split(/\n+/)
+      .filter(Boolean)
+      .map((p) => `<p>${escapeHtml(p)}</p>`)
+  ];
+
+  if (data.keyPoints.length > 0) {
+    sections.push(
+      '<h2>关键要点</h2>',
+      `<ol>${data.keyPoints.map((p) => `<li>${escapeHtml(p)}</li>`).join('')}</ol>`
+    );
+  }
+
+  if (data.keywords.length > 0) {
+    sections.push(
+      '<h2>关键词</h2>',
+      `<p class="keywords">${data.keywords.map((k) => `<span>${escapeHtml(k)}</span>`).join('')}</p>`
+    );
+  }
+
+  const groups = groupHighlights(data.highlights);
+  if (groups.length > 0) {
+    sections.push('<h2>内容高亮</h2>');
+    groups.forEach((group) => {
+      sections.push(`<h3>${group.label}</h3>`);
+      group.items.forEach((item) => {
+        const context = item.context
+          ? `<small>上下文：${escapeHtml(item.context)}</small>`
+          : '';
+        const note = item.note ? `<small>批注：${escapeHtml(item.note)}</small>` : '';
+        sections.push(
+          `<blockquote class="${item.type}">${escapeHtml(item.text)}${context}${note}</blockquote>`
+        );
+      });
+    });
+  }
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(data.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
+
+// 根据标题生成安全的文件名
+export const exportFileName = (data: SummaryData, extension: string) => {
+  const base = data.title
+    .replace(/[\\/:*?"<>|\s]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${base || 'summary'}.${extension}`;
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// 在新窗口打开打印视图，用户可通过浏览器「另存为PDF」
+export const openPrintView = (data: SummaryData): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.open();
+  printWindow.document.write(toHtml(data));
+  printWindow.document.close();
+  let printed = false;
+  const print = () => {
+    if (printed || printWindow.closed) return;
+    printed = true;
+    printWindow.focus();
+    printWindow.print();
+  };
+  printWindow.addEventListener('load', print, { once: true });
+  // 部分浏览器对document.write的窗口不会触发load事件
+  setTimeout(print, 500);
+  return true;
+};
+
+export const exportSummary = (data: SummaryData, format: ExportFormat): boolean => {
+  switch (format) {
+    case 'markdown':
+      downloadFile(toMarkdown(data), exportFileName(data, 'md'), 'text/markdown');
+      return true;
+    case 'html':
+      downloadFile(toHtml(data), exportFileName(data, 'html'), 'text/html');
+      return true;
+    case 'print':
+      return openPrintView(data);
+  }
+};
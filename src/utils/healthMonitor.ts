@@ -0,0 +1,151 @@
+import { AgentEndpoint, ApiStatus, HealthSample } from '../types';
+import { checkEndpointHealth } from './endpoints';
+
+// 正常状态下的轮询间隔
+export const HEALTH_CHECK_INTERVAL_MS = 30000;
+// 失败后的首次重试间隔，之后按2倍递增
+const RETRY_BASE_MS = 5000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+// 保留的检查记录条数
+export const MAX_HEALTH_SAMPLES = 30;
+// 响应超过该耗时视为服务变慢
+export const SLOW_LATENCY_MS = 2000;
+// 最近几次检查中出现失败时视为不稳定
+const RECENT_WINDOW = 5;
+
+export const HEALTH_STATUS_LABELS: Record<ApiStatus['status'], string> = {
+  online: '在线',
+  degraded: '不稳定',
+  offline: '离线',
+  unknown: '检查中'
+};
+
+export const initialApiStatus: ApiStatus = {
+  status: 'unknown',
+  consecutiveFailures: 0,
+  samples: []
+};
+
+// 连续失败时指数退避，避免服务不可用时频繁请求
+export const nextCheckDelay = (consecutiveFailures: number, intervalMs = HEALTH_CHECK_INTERVAL_MS) =>
+  consecutiveFailures === 0
+    ? intervalMs
+    : Math.min(RETRY_BASE_MS * 2 ** (consecutiveFailures - 1), MAX_BACKOFF_MS);
+
+export const deriveStatus = (samples: HealthSample[]): ApiStatus['status'] => {
+  const last = samples[samples.length - 1];
+  if (!last) return 'unknown';
+  if (!last.ok) return 'offline';
+  const recent = samples.slice(-RECENT_WINDOW);
+  const isSlow = (last.latency ?? 0) > SLOW_LATENCY_MS;
+  return isSlow || recent.some((sample) => !sample.ok) ? 'degraded' : 'online';
+};
+
+// 检查记录的延迟统计，只计入成功的检查
+export const latencyStats = (samples: HealthSample[]) => {
+  const latencies = samples
+    .filter((sample) => sample.ok && sample.latency !== undefined)
+    .map((sample) => sample.latency as number)
+    .sort((a, b) => a - b);
+  if (latencies.length === 0) return null;
+  const average = latencies.reduce((sum, value) => sum + value, 0) / latencies.length;
+  const p95 = latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))];
+  return {
+    average: Math.round(average),
+    p95,
+    max: latencies[latencies.length - 1]
+  };
+};
+
+export interface HealthMonitor {
+  start(): void;
+  stop(): void;
+  // 立即检查一次并重新计时
+  checkNow(): Promise<void>;
+}
+
+// 定时检查端点健康状况：记录延迟、失败时退避、页面隐藏时暂停
+export const createHealthMonitor = (
+  endpoint: AgentEndpoint,
+  onUpdate: (status: ApiStatus) => void,
+  intervalMs: number = HEALTH_CHECK_INTERVAL_MS
+): HealthMonitor => {
+  let status: ApiStatus = initialApiStatus;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = false;
+  let inFlight: Promise<void> | null = null;
+
+  const emit = (changes: Partial<ApiStatus>) => {
+    status = { ...status, ...changes };
+    onUpdate(status);
+  };
+
+  const schedule = (delay = nextCheckDelay(status.consecutiveFailures, intervalMs)) => {
+    clearTimeout(timer);
+    if (!running) return;
+    if (document.hidden) {
+      emit({ nextCheckAt: undefined });
+      return;
+    }
+    timer = setTimeout(checkNow, delay);
+    emit({ nextCheckAt: new Date(Date.now() + delay).toISOString() });
+  };
+
+  const check = async () => {
+    const sample = await checkEndpointHealth(endpoint);
+    if (!running) return;
+    const samples = [...status.samples, sample].slice(-MAX_HEALTH_SAMPLES);
+    emit({
+      status: deriveStatus(samples),
+      lastChecked: sample.checkedAt,
+      latency: sample.latency,
+      consecutiveFailures: sample.ok ? 0 : status.consecutiveFailures + 1,
+      samples
+    });
+  };
+
+  // 合并并发的检查请求
+  const checkNow = async () => {
+    clearTimeout(timer);
+    if (!inFlight) {
+      inFlight = check().finally(() => {
+        inFlight = null;
+      });
+    }
+    await inFlight;
+    schedule();
+  };
+
+  // 页面隐藏时暂停轮询；重新可见时若已错过计划时间则立即检查，否则按剩余时间继续
+  const handleVisibilityChange = () => {
+    if (!running) return;
+    if (document.hidden) {
+      schedule();
+      return;
+    }
+    const sinceLastCheck = status.lastChecked
+      ? Date.now() - new Date(status.lastChecked).getTime()
+      : Infinity;
+    const remaining = nextCheckDelay(status.consecutiveFailures, intervalMs) - sinceLastCheck;
+    if (remaining <= 0) {
+      checkNow();
+    } else {
+      schedule(remaining);
+    }
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      checkNow();
+    },
+    stop() {
+      running = false;
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    },
+    checkNow
+  };
+};
@@ -0,0 +1,188 @@
+import { HighlightItem } from '../types';
+
+export type MatchMethod = 'offset' | 'exact' | 'fuzzy';
+
+export interface MappedHighlight {
+  highlight: HighlightItem;
+  start: number;
+  end: number;
+  method: MatchMethod;
+}
+
+export interface SourceSegment {
+  text: string;
+  start: number;
+  highlight?: HighlightItem;
+}
+
+export interface HighlightMapping {
+  segments: SourceSegment[];
+  mapped: MappedHighlight[];
+  unmatched: HighlightItem[];
+}
+
+// 模糊匹配的最低相似度（字符二元组的Dice系数）
+const FUZZY_THRESHOLD = 0.6;
+
+// 规范化时忽略的字符：空白与常见中英文标点
+const IGNORED_CHAR = /[\s\p{P}\p{S}]/u;
+
+interface NormalizedText {
+  text: string;
+  // positions[i] 为规范化文本第i个字符在原文中的下标
+  positions: number[];
+}
+
+const normalize = (text: string): NormalizedText => {
+  let normalized = '';
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (IGNORED_CHAR.test(char)) continue;
+    normalized += char.toLowerCase();
+    positions.push(i);
+  }
+  return { text: normalized, positions };
+};
+
+const compact = (text: string) => normalize(text).text;
+
+const bigramCounts = (text: string) => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+};
+
+const diceCoefficient = (a: Map<string, number>, aSize: number, b: string) => {
+  const bCounts = bigramCounts(b);
+  let overlap = 0;
+  bCounts.forEach((count, gram) => {
+    overlap += Math.min(count, a.get(gram) || 0);
+  });
+  const total = aSize + Math.max(b.length - 1, 0);
+  return total === 0 ? 0 : (2 * overlap) / total;
+};
+
+const overlaps = (ranges: { start: number; end: number }[], start: number, end: number) =>
+  ranges.some((range) => start < range.end && end > range.start);
+
+// 模型给出的偏移量只在对应原文与高亮文本一致时才可信
+const matchByOffset = (source: string, highlight: HighlightItem) => {
+  const { startIndex, endIndex } = highlight;
+  if (startIndex === undefined || endIndex === undefined || endIndex > source.length) {
+    return null;
+  }
+  const slice = source.slice(startIndex, endIndex);
+  return compact(slice) === compact(highlight.text) ? { start: startIndex, end: endIndex } : null;
+};
+
+// 精确查找，优先选择上下文附近且未被占用的位置
+const matchExact = (
+  source: string,
+  highlight: HighlightItem,
+  used: { start: number; end: number }[]
+) => {
+  const needle = highlight.text;
+  const contextStart = highlight.context ? source.indexOf(highlight.context) : -1;
+  const candidates: number[] = [];
+  let index = source.indexOf(needle);
+  while (index !== -1) {
+    candidates.push(index);
+    index = source.indexOf(needle, index + 1);
+  }
+
+  const free = candidates.filter((start) => !overlaps(used, start, start + needle.length));
+  if (free.length === 0) return null;
+
+  const best =
+    contextStart === -1
+      ? free[0]
+      : free.reduce((a, b) => (Math.abs(b - contextStart) < Math.abs(a - contextStart) ? b : a));
+  return { start: best, end: best + needle.length };
+};
+
+// 忽略空白和标点后查找；仍找不到时用滑动窗口计算相似度
+const matchFuzzy = (
+  source: string,
+  normalizedSource: NormalizedText,
+  highlight: HighlightItem,
+  used: { start: number; end: number }[]
+) => {
+  const needle = compact(highlight.text);
+  const haystack = normalizedSource.text;
+  const { positions } = normalizedSource;
+  if (needle.length < 2 || haystack.length < needle.length) return null;
+
+  const toRange = (from: number, length: number) => ({
+    start: positions[from],
+    end: positions[from + length - 1] + 1
+  });
+
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    const range = toRange(index, needle.length);
+    if (!overlaps(used, range.start, range.end)) return range;
+    index = haystack.indexOf(needle, index + 1);
+  }
+
+  const needleGrams = bigramCounts(needle);
+  const step = Math.max(1, Math.floor(needle.length / 4));
+  let bestScore = 0;
+  let bestIndex = -1;
+  for (let i = 0; i + needle.length <= haystack.length; i += step) {
+    const score = diceCoefficient(needleGrams, needle.length - 1, haystack.slice(i, i + needle.length));
+    if (score > bestScore) {
+      const range = toRange(i, needle.length);
+      if (!overlaps(used, range.start, range.end)) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    }
+  }
+
+  if (bestIndex === -1 || bestScore < FUZZY_THRESHOLD) return null;
+  const range = toRange(bestIndex, needle.length);
+  return source.slice(range.start, range.end).trim() ? range : null;
+};
+
+// 将高亮定位到原文：依次用偏移量、精确匹配、模糊匹配，可靠的方式先占用位置
+export const mapHighlights = (source: string, highlights: HighlightItem[]): HighlightMapping => {
+  const normalizedSource = normalize(source);
+  const mapped: MappedHighlight[] = [];
+  const used: { start: number; end: number }[] = [];
+  let pending = highlights;
+
+  const runPass = (
+    method: MatchMethod,
+    match: (highlight: HighlightItem) => { start: number; end: number } | null
+  ) => {
+    pending = pending.filter((highlight) => {
+      const range = match(highlight);
+      if (!range || overlaps(used, range.start, range.end)) return true;
+      used.push(range);
+      mapped.push({ highlight, ...range, method });
+      return false;
+    });
+  };
+
+  runPass('offset', (highlight) => matchByOffset(source, highlight));
+  runPass('exact', (highlight) => matchExact(source, highlight, used));
+  runPass('fuzzy', (highlight) => matchFuzzy(source, normalizedSource, highlight, used));
+  const unmatched = pending;
+
+  mapped.sort((a, b) => a.start - b.start);
+
+  const segments: SourceSegment[] = [];
+  let cursor = 0;
+  mapped.forEach(({ highlight, start, end }) => {
+    if (start > cursor) segments.push({ text: source.slice(cursor, start), start: cursor });
+    segments.push({ text: source.slice(start, end), start, highlight });
+    cursor = end;
+  });
+  if (cursor < source.length) segments.push({ text: source.slice(cursor), start: cursor });
+
+  return { segments, mapped, unmatched };
+};
@@ -0,0 +1,55 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { LEGACY_STORAGE_KEY, createLocalStorageBackend, readLegacyHistory } from './historyBackends';
+
+const record = (id: string, createdAt?: string) => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: id,
+  summary: '',
+  createdAt,
+  data: { title: id, summary: '', keyPoints: [], keywords: [], highlights: [], readingTime: '1分钟' }
+});
+
+describe('readLegacyHistory', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('缺少createdAt的旧记录补为最早时间，不会丢失', () => {
+    localStorage.setItem(
+      LEGACY_STORAGE_KEY,
+      JSON.stringify([record('old'), record('new', '2024-01-02T00:00:00.000Z')])
+    );
+
+    const history = readLegacyHistory();
+    expect(history.map((h) => h.id)).toEqual(['old', 'new']);
+    expect(history[0].createdAt).toBe(new Date(0).toISOString());
+  });
+
+  it('丢弃缺少id或url的记录', () => {
+    const { url: _url, ...withoutUrl } = record('no-url', '2024-01-01T00:00:00.000Z');
+    localStorage.setItem(
+      LEGACY_STORAGE_KEY,
+      JSON.stringify([null, { ...record('x'), id: undefined }, withoutUrl, record('ok')])
+    );
+
+    expect(readLegacyHistory().map((h) => h.id)).toEqual(['ok']);
+  });
+});
+
+describe('createLocalStorageBackend', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('缺少createdAt的记录排在最后', async () => {
+    localStorage.setItem(
+      LEGACY_STORAGE_KEY,
+      JSON.stringify([
+        record('old'),
+        record('a', '2024-01-01T00:00:00.000Z'),
+        record('b', '2024-01-02T00:00:00.000Z')
+      ])
+    );
+
+    const items = await createLocalStorageBackend().getAll();
+    expect(items.map((h) => h.id)).toEqual(['b', 'a', 'old']);
+  });
+});
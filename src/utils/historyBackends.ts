@@ -0,0 +1,223 @@
+import { AnalysisHistory } from '../types';
+
+export const LEGACY_STORAGE_KEY = 'web-summarizer-history';
+// localStorage容量有限，回退存储时仍需限制条数
+export const LOCAL_STORAGE_MAX_ITEMS = 50;
+
+const DB_NAME = 'web-summarizer';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+
+// 历史记录存储后端
+export interface HistoryBackend {
+  readonly name: 'indexeddb' | 'localstorage';
+  // 按创建时间倒序返回全部记录
+  getAll(): Promise<AnalysisHistory[]>;
+  get(id: string): Promise<AnalysisHistory | undefined>;
+  getByUrl(url: string): Promise<AnalysisHistory[]>;
+  put(item: AnalysisHistory): Promise<void>;
+  putMany(items: AnalysisHistory[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const byCreatedAtDesc = (a: AnalysisHistory, b: AnalysisHistory) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+// 早期版本写入的记录可能缺少createdAt，补为最早时间排在列表末尾，避免排序出错
+const withCreatedAt = (item: AnalysisHistory): AnalysisHistory =>
+  typeof item.createdAt === 'string' && !Number.isNaN(Date.parse(item.createdAt))
+    ? item
+    : { ...item, createdAt: new Date(0).toISOString() };
+
+const sortByCreatedAt = (items: AnalysisHistory[]) =>
+  items.map(withCreatedAt).sort(byCreatedAtDesc);
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('事务已中止'));
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        store.createIndex('url', 'url', { unique: false });
+        store.createIndex('createdAt', 'createdAt', { unique: false });
+        store.createIndex('title', 'title', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB被其他标签页占用'));
+  });
+
+// 读取旧版localStorage中的历史记录，丢弃缺少id或url的记录并补全createdAt
+export const readLegacyHistory = (): AnalysisHistory[] => {
+  try {
+    const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!data) return [];
+    const history = JSON.parse(data) as AnalysisHistory[];
+    if (!Array.isArray(history)) return [];
+    return history
+      .filter((item) => item && typeof item.id === 'string' && typeof item.url === 'string')
+      .map(withCreatedAt);
+  } catch (error) {
+    console.error('读取历史记录失败:', error);
+    return [];
+  }
+};
+
+// IndexedDB后端：支持大量记录，按url、createdAt、title建立索引
+export const createIndexedDBBackend = async (): Promise<HistoryBackend> => {
+  const db = await openDatabase();
+
+  const openStore = (mode: IDBTransactionMode) => {
+    const tx = db.transaction(HISTORY_STORE, mode);
+    return { tx, store: tx.objectStore(HISTORY_STORE) };
+  };
+
+  const backend: HistoryBackend = {
+    name: 'indexeddb',
+
+    // 直接读取对象存储再排序：缺少createdAt的记录不在createdAt索引中，按索引读取会漏掉
+    async getAll() {
+      const { store } = openStore('readonly');
+      const items = await requestToPromise(store.getAll() as IDBRequest<AnalysisHistory[]>);
+      return sortByCreatedAt(items);
+    },
+
+    async get(id) {
+      const { store } = openStore('readonly');
+      return requestToPromise(store.get(id) as IDBRequest<AnalysisHistory | undefined>);
+    },
+
+    async getByUrl(url) {
+      const { store } = openStore('readonly');
+      const items = await requestToPromise(
+        store.index('url').getAll(url) as IDBRequest<AnalysisHistory[]>
+      );
+      return sortByCreatedAt(items);
+    },
+
+    async put(item) {
+      const { tx, store } = openStore('readwrite');
+      store.put(item);
+      await transactionDone(tx);
+    },
+
+    async putMany(items) {
+      const { tx, store } = openStore('readwrite');
+      items.forEach((item) => store.put(item));
+      await transactionDone(tx);
+    },
+
+    async delete(id) {
+      const { tx, store } = openStore('readwrite');
+      store.delete(id);
+      await transactionDone(tx);
+    },
+
+    async clear() {
+      const { tx, store } = openStore('readwrite');
+      store.clear();
+      await transactionDone(tx);
+    }
+  };
+
+  // 自动迁移旧版localStorage数据，成功后移除旧数据
+  const legacy = readLegacyHistory();
+  if (legacy.length > 0) {
+    await backend.putMany(legacy);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    console.log(`已将 ${legacy.length} 条历史记录迁移到IndexedDB`);
+  }
+
+  return backend;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// localStorage后端：IndexedDB不可用时的回退方案
+export const createLocalStorageBackend = (): HistoryBackend => {
+  // 写入失败时逐步丢弃最旧的记录，仍失败则向上抛出
+  const write = (items: AnalysisHistory[]) => {
+    let list = [...items]
+      .sort(byCreatedAtDesc)
+      .slice(0, LOCAL_STORAGE_MAX_ITEMS);
+
+    for (;;) {
+      try {
+        localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(list));
+        return;
+      } catch (error) {
+        if (!isQuotaError(error) || list.length <= 1) {
+          throw new Error('本地存储空间不足，无法保存历史记录');
+        }
+        list = list.slice(0, Math.floor(list.length * 0.8));
+      }
+    }
+  };
+
+  return {
+    name: 'localstorage',
+
+    async getAll() {
+      return readLegacyHistory().sort(byCreatedAtDesc);
+    },
+
+    async get(id) {
+      return readLegacyHistory().find((item) => item.id === id);
+    },
+
+    async getByUrl(url) {
+      return readLegacyHistory()
+        .filter((item) => item.url === url)
+        .sort(byCreatedAtDesc);
+    },
+
+    async put(item) {
+      write([item, ...readLegacyHistory().filter((h) => h.id !== item.id)]);
+    },
+
+    async putMany(items) {
+      const ids = new Set(items.map((item) => item.id));
+      write([...items, ...readLegacyHistory().filter((h) => !ids.has(h.id))]);
+    },
+
+    async delete(id) {
+      write(readLegacyHistory().filter((item) => item.id !== id));
+    },
+
+    async clear() {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+  };
+};
+
+// 优先使用IndexedDB，不可用时回退到localStorage
+export const createHistoryBackend = async (): Promise<HistoryBackend> => {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await createIndexedDBBackend();
+    } catch (error) {
+      console.warn('IndexedDB不可用，回退到localStorage:', error);
+    }
+  }
+  return createLocalStorageBackend();
+};
@@ -0,0 +1,36 @@
+import { AnalysisHistory, HistoryGroup } from '../types';
+
+const byCreatedAtDesc = (a: AnalysisHistory, b: AnalysisHistory) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+// 按URL分组，组的顺序沿用输入顺序中每个URL首次出现的位置
+export const groupByUrl = (history: AnalysisHistory[]): HistoryGroup[] => {
+  const groups = new Map<string, AnalysisHistory[]>();
+
+  history.forEach((item) => {
+    const versions = groups.get(item.url);
+    if (versions) versions.push(item);
+    else groups.set(item.url, [item]);
+  });
+
+  return Array.from(groups.entries()).map(([url, versions]) => {
+    const sorted = [...versions].sort(byCreatedAtDesc);
+    return { url, latest: sorted[0], versions: sorted };
+  });
+};
+
+// 按创建时间为每个URL的记录重新编号，并重建previousVersionId链
+export const renumberVersions = (history: AnalysisHistory[]): AnalysisHistory[] =>
+  groupByUrl(history).flatMap(({ versions }) => {
+    const oldestFirst = [...versions].reverse();
+    return oldestFirst.map((item, i) => ({
+      ...item,
+      version: i + 1,
+      previousVersionId: oldestFirst[i - 1]?.id
+    }));
+  });
+
+// 旧记录没有版本号时按创建时间推算
+export const getVersionNumber = (group: HistoryGroup, item: AnalysisHistory) =>
+  item.version ?? group.versions.length - group.versions.indexOf(item);
+
@@ -0,0 +1,83 @@
+import {
+  AgentEndpoint,
+  AnalysisErrorKind,
+  AnalysisOptions,
+  PendingAnalysis,
+  PromptTemplate
+} from '../types';
+
+const STORAGE_KEY = 'web-summarizer-offline-queue';
+
+// 连接或服务端的临时故障，恢复在线后重新执行即可；4xx、输出无法解析等失败需用户处理后手动重试
+const RETRY_ON_RECONNECT: AnalysisErrorKind[] = ['network', 'timeout', 'server'];
+
+export const createPendingAnalysis = (
+  url: string,
+  options: AnalysisOptions,
+  template: PromptTemplate,
+  endpoint: AgentEndpoint
+): PendingAnalysis => ({
+  id: `pending-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  url,
+  createdAt: new Date().toISOString(),
+  status: 'pending',
+  options,
+  template,
+  endpointId: endpoint.id
+});
+
+// 将条目向前（-1）或向后（1）移动一位
+export const moveQueueItem = (
+  queue: PendingAnalysis[],
+  id: string,
+  direction: -1 | 1
+): PendingAnalysis[] => {
+  const index = queue.findIndex((item) => item.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= queue.length) return queue;
+  const next = [...queue];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+const isPendingAnalysis = (value: unknown): value is PendingAnalysis => {
+  if (typeof value !== 'object' || value === null) return false;
+  const item = value as Record<string, unknown>;
+  return (
+    typeof item.id === 'string' &&
+    typeof item.url === 'string' &&
+    typeof item.endpointId === 'string' &&
+    typeof item.template === 'object' &&
+    typeof item.options === 'object'
+  );
+};
+
+// 恢复在线时将因临时故障失败的条目恢复为待处理
+export const requeueRetryable = (queue: PendingAnalysis[]): PendingAnalysis[] =>
+  queue.map((item) =>
+    item.status === 'failed' && item.errorKind && RETRY_ON_RECONNECT.includes(item.errorKind)
+      ? { ...item, status: 'pending', error: undefined, errorKind: undefined }
+      : item
+  );
+
+// 页面关闭时正在执行的请求已中断，重新加载后恢复为待处理
+export const loadQueue = (): PendingAnalysis[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored
+          .filter(isPendingAnalysis)
+          .map((item) => (item.status === 'running' ? { ...item, status: 'pending' as const } : item))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveQueue = (queue: PendingAnalysis[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('保存离线队列失败:', error);
+  }
+};
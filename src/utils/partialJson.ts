@@ -0,0 +1,160 @@
+// 流式输出中尚不完整、无法使用的值
+const INCOMPLETE = Symbol('incomplete');
+
+type Parsed = unknown | typeof INCOMPLETE;
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t'
+};
+
+// 解析可能被截断的JSON：未闭合的字符串、数组和对象按已收到的部分补全，
+// 末尾不完整的键、数字和字面量被丢弃；遇到语法错误时返回错误之前的部分。
+// 从第一个 { 开始解析，可以容忍前面的说明文字或 ```json 代码块标记
+export const parsePartialJson = (text: string): unknown => {
+  const start = text.indexOf('{');
+  if (start === -1) return undefined;
+
+  let pos = start;
+  // 输入已耗尽或出现语法错误，各层容器停止解析并原样返回
+  let ended = false;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseString = (): { value: string; complete: boolean } => {
+    let value = '';
+    pos++;
+    while (pos < text.length) {
+      const char = text[pos];
+      if (char === '"') {
+        pos++;
+        return { value, complete: true };
+      }
+      if (char === '\\') {
+        const next = text[pos + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+          const hex = text.slice(pos + 2, pos + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+          value += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+        } else {
+          value += ESCAPES[next] ?? next;
+          pos += 2;
+        }
+        continue;
+      }
+      value += char;
+      pos++;
+    }
+    ended = true;
+    return { value, complete: false };
+  };
+
+  const parseLiteral = (): Parsed => {
+    const match = /^[-+0-9.eE]+|^[a-z]+/.exec(text.slice(pos));
+    if (!match) {
+      ended = true;
+      return INCOMPLETE;
+    }
+    pos += match[0].length;
+    // 位于末尾的数字或字面量可能还没有输出完
+    if (pos >= text.length) {
+      ended = true;
+      return INCOMPLETE;
+    }
+    const token = match[0];
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    const number = Number(token);
+    if (Number.isNaN(number)) {
+      ended = true;
+      return INCOMPLETE;
+    }
+    return number;
+  };
+
+  const parseArray = (): unknown[] => {
+    const items: unknown[] = [];
+    pos++;
+    while (!ended) {
+      skipWhitespace();
+      if (pos >= text.length) {
+        ended = true;
+        break;
+      }
+      const char = text[pos];
+      if (char === ']') {
+        pos++;
+        break;
+      }
+      if (char === ',') {
+        pos++;
+        continue;
+      }
+      const value = parseValue();
+      if (value !== INCOMPLETE) items.push(value);
+    }
+    return items;
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    const object: Record<string, unknown> = {};
+    pos++;
+    while (!ended) {
+      skipWhitespace();
+      if (pos >= text.length) {
+        ended = true;
+        break;
+      }
+      const char = text[pos];
+      if (char === '}') {
+        pos++;
+        break;
+      }
+      if (char === ',') {
+        pos++;
+        continue;
+      }
+      if (char !== '"') {
+        ended = true;
+        break;
+      }
+      const key = parseString();
+      if (!key.complete) break;
+      skipWhitespace();
+      if (text[pos] !== ':') {
+        ended = true;
+        break;
+      }
+      pos++;
+      const value = parseValue();
+      if (value !== INCOMPLETE) object[key.value] = value;
+    }
+    return object;
+  };
+
+  const parseValue = (): Parsed => {
+    skipWhitespace();
+    if (pos >= text.length) {
+      ended = true;
+      return INCOMPLETE;
+    }
+    const char = text[pos];
+    if (char === '{') return parseObject();
+    if (char === '[') return parseArray();
+    if (char === '"') return parseString().value;
+    return parseLiteral();
+  };
+
+  return parseObject();
+};
@@ -0,0 +1,113 @@
+import { LoadingState, StageTiming } from '../types';
+
+// 预期的模型输出长度（字符数），用于估算流式进度
+export const EXPECTED_RESPONSE_CHARS = 3000;
+
+// 各事件对应的进度节点
+const PROGRESS_DISPATCHED = 10;
+const PROGRESS_FIRST_TOKEN = 25;
+const PROGRESS_RECEIVED = 90;
+const PROGRESS_COMPLETE = 100;
+
+export const idleLoadingState: LoadingState = {
+  isLoading: false,
+  progress: 0,
+  stage: 'fetching'
+};
+
+export interface ProgressTracker {
+  // 请求已发出，等待Agent抓取网页并响应
+  dispatched(): void;
+  // 收到第一段输出
+  firstToken(): void;
+  // 累计收到的字符数
+  received(chars: number): void;
+  // 响应接收完毕，开始解析
+  responseComplete(): void;
+  // 解析完成
+  parsed(): void;
+  // 结束跟踪（成功或失败都需调用）
+  finish(): void;
+}
+
+// 根据真实请求事件生成LoadingState，而非固定时长的模拟进度
+export const createProgressTracker = (
+  onUpdate: (state: LoadingState) => void,
+  expectedChars: number = EXPECTED_RESPONSE_CHARS
+): ProgressTracker => {
+  const startedAt = Date.now();
+  const stages: StageTiming[] = [];
+  let stage: LoadingState['stage'] = 'fetching';
+  let progress = 0;
+  let receivedChars = 0;
+  let finished = false;
+
+  const emit = (isLoading = true) => {
+    onUpdate({
+      isLoading,
+      progress,
+      stage,
+      startedAt,
+      elapsedMs: Date.now() - startedAt,
+      receivedChars,
+      stages: stages.map((timing) => ({ ...timing }))
+    });
+  };
+
+  const enterStage = (next: LoadingState['stage']) => {
+    const now = Date.now();
+    const current = stages[stages.length - 1];
+    if (current?.stage === next) return;
+    if (current && current.endedAt === undefined) current.endedAt = now;
+    stages.push({ stage: next, startedAt: now });
+    stage = next;
+  };
+
+  return {
+    dispatched() {
+      enterStage('fetching');
+      progress = PROGRESS_DISPATCHED;
+      emit();
+    },
+
+    firstToken() {
+      if (stage !== 'fetching') return;
+      enterStage('analyzing');
+      progress = PROGRESS_FIRST_TOKEN;
+      emit();
+    },
+
+    received(chars: number) {
+      if (stage === 'fetching') this.firstToken();
+      receivedChars = chars;
+      // 超出预期长度时进度停留在接收完成节点之前
+      const ratio = Math.min(chars / expectedChars, 0.99);
+      progress =
+        PROGRESS_FIRST_TOKEN +
+        (PROGRESS_RECEIVED - PROGRESS_FIRST_TOKEN) * ratio;
+      emit();
+    },
+
+    responseComplete() {
+      enterStage('extracting');
+      progress = PROGRESS_RECEIVED;
+      emit();
+    },
+
+    parsed() {
+      enterStage('complete');
+      progress = PROGRESS_COMPLETE;
+      emit();
+    },
+
+    finish() {
+      if (finished) return;
+      finished = true;
+      const current = stages[stages.length - 1];
+      if (current && current.endedAt === undefined) {
+        current.endedAt = Date.now();
+      }
+      emit(false);
+    }
+  };
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { PromptTemplate, TextSource } from '../types';
+import {
+  DEFAULT_ANALYSIS_OPTIONS,
+  LENGTH_OPTIONS,
+  SOURCE_TEXT_MAX_TOKENS
+} from './analysisOptions';
+import { parseAgentResponse } from './responseParser';
+import {
+  BUILTIN_TEMPLATES,
+  DEFAULT_TEMPLATE,
+  buildGenerateOptions,
+  buildMessages
+} from './promptTemplates';
+
+const URL = 'https://example.com/article';
+
+const textSource: TextSource = {
+  id: 'text:1a2b3c4d',
+  kind: 'paste',
+  name: '会议记录',
+  content: '第一段内容'
+};
+
+const custom = (body: string): PromptTemplate => ({
+  id: 'template-custom',
+  name: '自定义',
+  body,
+  version: 1,
+  updatedAt: '2024-01-01T00:00:00.000Z'
+});
+
+const prompt = (target: string | TextSource, template: PromptTemplate = DEFAULT_TEMPLATE) =>
+  buildMessages(target, DEFAULT_ANALYSIS_OPTIONS, template)[0].content;
+
+describe('buildMessages', () => {
+  it.each(BUILTIN_TEMPLATES.map((template) => [template.name, template] as const))(
+    '内置模板「%s」要求返回sourceText',
+    (_name, template) => {
+      const text = prompt(URL, template);
+      expect(text).toContain(URL);
+      expect(text.match(/sourceText/g)).toHaveLength(1);
+    }
+  );
+
+  it('自定义模板没有要求sourceText时在末尾补上', () => {
+    const text = prompt(URL, custom('总结这个网页：{{url}}'));
+    expect(text.startsWith(`总结这个网页：${URL}`)).toBe(true);
+    expect(text).toMatch(/\n\n另外请在JSON中返回sourceText：/);
+  });
+
+  it('自定义模板已提到sourceText时不重复追加', () => {
+    const body = '总结{{url}}，并在sourceText中给出正文';
+    expect(prompt(URL, custom(body))).toBe(`总结${URL}，并在sourceText中给出正文`);
+  });
+
+  it('分析粘贴的文本时要求sourceText留空，内容附在末尾', () => {
+    const text = prompt(textSource);
+    expect(text).toContain('sourceUrl和sourceText字段留空');
+    expect(text).not.toContain('另外请在JSON中返回sourceText');
+    expect(text.endsWith('<<<内容开始>>>\n第一段内容\n<<<内容结束>>>')).toBe(true);
+  });
+});
+
+describe('buildGenerateOptions', () => {
+  it('分析网页时为正文预留输出token', () => {
+    const { modelSettings } = buildGenerateOptions(URL, DEFAULT_ANALYSIS_OPTIONS);
+    expect(modelSettings).toEqual({
+      temperature: DEFAULT_ANALYSIS_OPTIONS.temperature,
+      maxOutputTokens: LENGTH_OPTIONS.standard.maxTokens + SOURCE_TEXT_MAX_TOKENS
+    });
+  });
+
+  it('分析文本内容时不预留正文的输出token', () => {
+    const { modelSettings } = buildGenerateOptions(textSource, DEFAULT_ANALYSIS_OPTIONS);
+    expect(modelSettings?.maxOutputTokens).toBe(LENGTH_OPTIONS.standard.maxTokens);
+  });
+});
+
+describe('sourceText契约', () => {
+  it('Agent返回的sourceText写入结果，用于原文阅读区', () => {
+    const response = JSON.stringify({
+      title: '示例',
+      summary: '摘要',
+      keyPoints: [],
+      keywords: [],
+      highlights: [],
+      readingTime: '1分钟',
+      sourceText: '网页正文第一段。\n网页正文第二段。'
+    });
+    expect(parseAgentResponse(response, URL).data.sourceText).toBe(
+      '网页正文第一段。\n网页正文第二段。'
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import {
+  AnalysisOptions,
+  AnalysisTarget,
+  MastraGenerateOptions,
+  MastraMessage,
+  PromptTemplate,
+  TemplateRef
+} from '../types';
+import {
+  FOCUS_OPTIONS,
+  LANGUAGE_OPTIONS,
+  LENGTH_OPTIONS,
+  SOURCE_TEXT_MAX_CHARS,
+  SOURCE_TEXT_MAX_TOKENS
+} from './analysisOptions';
+
+const STORAGE_KEY = 'web-summarizer-templates';
+
+export const DEFAULT_TEMPLATE_ID = 'builtin-default';
+
+// 模板中可用的变量，按分析选项取值
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'url', description: '网页地址（分析粘贴或上传的文本时为来源名称）' },
+  { name: 'language', description: '输出语言' },
+  { name: 'maxPoints', description: '关键要点数量上限' },
+  { name: 'length', description: '摘要长度要求' },
+  { name: 'focus', description: '分析视角' }
+];
+
+const BUILTIN_UPDATED_AT = '2024-01-01T00:00:00.000Z';
+// 内置模板内容变化时递增，旧版本生成的缓存结果随之失效
+const BUILTIN_VERSION = 2;
+
+const SOURCE_TEXT_FIELD = `sourceText：网页正文的纯文本，保留原文，不要翻译或改写，最多${SOURCE_TEXT_MAX_CHARS}字`;
+
+const builtIn = (id: string, name: string, description: string, lines: string[]): PromptTemplate => ({
+  id: `builtin-${id}`,
+  name,
+  description,
+  body: lines.join('\n'),
+  version: BUILTIN_VERSION,
+  builtIn: true,
+  updatedAt: BUILTIN_UPDATED_AT
+});
+
+export const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  builtIn('default', '标准摘要', '通用的结构化摘要', [
+    '请分析这个网页并返回JSON格式的摘要：{{url}}',
+    '',
+    '要求：',
+    '- 摘要长度：{{length}}',
+    '- 输出语言：title、summary、keyPoints和keywords使用{{language}}，highlights保留原文',
+    '- 关键要点：不超过{{maxPoints}}条',
+    '- 分析视角：{{focus}}',
+    `- 同时返回${SOURCE_TEXT_FIELD}`
+  ]),
+  builtIn('meeting-notes', '会议纪要', '背景、讨论要点、结论与待办', [
+    '请将这个网页整理为会议纪要风格的结构化摘要：{{url}}',
+    '',
+    '请返回JSON，字段如下：',
+    '- title：纪要标题',
+    '- summary：按「背景 / 讨论要点 / 结论」三部分组织的纪要正文，{{length}}，使用{{language}}',
+    '- keyPoints：决议事项与待办，文中提到时注明负责人或时间，不超过{{maxPoints}}条',
+    '- keywords：涉及的人物、项目与主题词',
+    '- highlights：原文中的关键发言或数据，保留原文',
+    '- readingTime：预计阅读时间',
+    `- ${SOURCE_TEXT_FIELD}`
+  ]),
+  builtIn('tldr-actions', 'TL;DR + 行动项', '一句话总结加可执行的行动项', [
+    '请为这个网页生成「TL;DR + 行动项」格式的摘要：{{url}}',
+    '',
+    '请返回JSON，字段如下：',
+    '- title：标题',
+    '- summary：一句话TL;DR，不超过50字，使用{{language}}',
+    '- keyPoints：读者可以直接执行的行动项，以动词开头，不超过{{maxPoints}}条',
+    '- keywords：关键词',
+    '- highlights：支撑行动项的原文片段，保留原文',
+    '- readingTime：预计阅读时间',
+    `- ${SOURCE_TEXT_FIELD}`
+  ]),
+  builtIn('paper-abstract', '论文摘要', '研究问题、方法、发现与局限', [
+    '请按学术论文摘要的结构分析这个网页：{{url}}',
+    '',
+    '请返回JSON，字段如下：',
+    '- title：论文或文章标题',
+    '- summary：按「研究问题、方法、主要发现、结论与局限」组织，{{length}}，使用{{language}}',
+    '- keyPoints：主要贡献与发现，不超过{{maxPoints}}条',
+    '- keywords：学科术语与关键词',
+    '- highlights：关键的实验数据、引用与结论句，保留原文',
+    '- readingTime：预计阅读时间',
+    `- ${SOURCE_TEXT_FIELD}`
+  ])
+];
+
+export const DEFAULT_TEMPLATE = BUILTIN_TEMPLATES[0];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const templateVariables = (url: string, options: AnalysisOptions): Record<string, string> => ({
+  url,
+  language: LANGUAGE_OPTIONS[options.language].name,
+  maxPoints: String(options.maxKeyPoints),
+  length: LENGTH_OPTIONS[options.length].instruction,
+  focus: FOCUS_OPTIONS[options.focus].instruction || '不限，全面概括'
+});
+
+// 替换模板变量，未知变量原样保留并返回其名称
+export const renderTemplate = (
+  body: string,
+  variables: Record<string, string>
+): { text: string; unknown: string[] } => {
+  const unknown = new Set<string>();
+  const text = body.replace(VARIABLE_PATTERN, (match, name: string) => {
+    if (name in variables) return variables[name];
+    unknown.add(name);
+    return match;
+  });
+  return { text, unknown: Array.from(unknown) };
+};
+
+const URL_VARIABLE = /\{\{\s*url\s*\}\}/;
+
+export const hasUrlVariable = (body: string): boolean => URL_VARIABLE.test(body);
+
+// 模板中没有 {{url}} 时在末尾附上分析对象，否则Agent不知道要分析哪个网页
+export const withUrlVariable = (body: string): string =>
+  hasUrlVariable(body) ? body : `${body.trimEnd()}\n\n分析对象：{{url}}`;
+
+// 原文阅读区依赖sourceText，分析网页时模板没有要求该字段则在末尾补上
+export const withSourceTextRequest = (body: string): string =>
+  body.includes('sourceText')
+    ? body
+    : `${body.trimEnd()}\n\n另外请在JSON中返回${SOURCE_TEXT_FIELD}`;
+
+export const toTemplateRef = ({ id, name, version }: PromptTemplate): TemplateRef => ({
+  id,
+  name,
+  version
+});
+
+// 粘贴或上传的内容附在模板之后，模板中的 {{url}} 替换为来源名称
+const renderPrompt = (target: AnalysisTarget, options: AnalysisOptions, template: PromptTemplate) => {
+  const body = withUrlVariable(template.body);
+  if (typeof target === 'string') {
+    return renderTemplate(withSourceTextRequest(body), templateVariables(target, options)).text;
+  }
+  const prompt = renderTemplate(
+    body,
+    templateVariables(`「${target.name}」（用户提供的文本，全文附在下方）`, options)
+  ).text;
+  return [
+    prompt,
+    '',
+    '以下是需要分析的全部内容，请直接基于这些内容作答，不要访问任何网址；sourceUrl和sourceText字段留空。',
+    '<<<内容开始>>>',
+    target.content,
+    '<<<内容结束>>>'
+  ].join('\n');
+};
+
+export const buildMessages = (
+  target: AnalysisTarget,
+  options: AnalysisOptions,
+  template: PromptTemplate = DEFAULT_TEMPLATE
+): MastraMessage[] => [
+  {
+    role: 'user',
+    content: renderPrompt(target, options, template)
+  }
+];
+
+// 温度和输出长度上限通过调用选项的modelSettings传给模型；分析网页时为返回的正文预留输出长度
+export const buildGenerateOptions = (
+  target: AnalysisTarget,
+  options: AnalysisOptions
+): MastraGenerateOptions => ({
+  modelSettings: {
+    temperature: options.temperature,
+    maxOutputTokens:
+      LENGTH_OPTIONS[options.length].maxTokens +
+      (typeof target === 'string' ? SOURCE_TEXT_MAX_TOKENS : 0)
+  }
+});
+
+export const createTemplateId = () =>
+  `template-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+interface StoredTemplates {
+  templates: PromptTemplate[];
+  selectedId: string;
+}
+
+const isTemplate = (value: unknown): value is PromptTemplate => {
+  if (typeof value !== 'object' || value === null) return false;
+  const t = value as Record<string, unknown>;
+  return (
+    typeof t.id === 'string' &&
+    typeof t.name === 'string' &&
+    typeof t.body === 'string' &&
+    typeof t.version === 'number'
+  );
+};
+
+// 读取用户自定义模板与当前选择，内置模板不写入存储
+export const loadTemplates = (): StoredTemplates => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    const custom: PromptTemplate[] = Array.isArray(stored.templates)
+      ? stored.templates.filter(isTemplate).map((t: PromptTemplate) => ({ ...t, builtIn: false }))
+      : [];
+    const templates = [...BUILTIN_TEMPLATES, ...custom];
+    const selectedId = templates.some((t) => t.id === stored.selectedId)
+      ? stored.selectedId
+      : DEFAULT_TEMPLATE_ID;
+    return { templates, selectedId };
+  } catch {
+    return { templates: BUILTIN_TEMPLATES, selectedId: DEFAULT_TEMPLATE_ID };
+  }
+};
+
+export const saveTemplates = ({ templates, selectedId }: StoredTemplates) => {
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ templates: templates.filter((t) => !t.builtIn), selectedId })
+    );
+  } catch (error) {
+    console.error('保存提示词模板失败:', error);
+  }
+};
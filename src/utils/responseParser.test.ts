@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { MalformedOutputError, TruncatedOutputError, toAnalysisError } from './analysisErrors';
+import { parseAgentResponse } from './responseParser';
+
+const URL = 'https://example.com/article';
+
+const complete = JSON.stringify({
+  title: '示例网页',
+  summary: '一段摘要',
+  keyPoints: ['要点一', '要点二'],
+  keywords: ['示例'],
+  highlights: [
+    { id: 'h1', text: '第一条高亮', type: 'important' },
+    { id: 'h2', text: '第二条高亮', type: 'quote' }
+  ],
+  readingTime: '3分钟'
+});
+
+// 在第二条高亮中途截断：第一条高亮是已闭合的子对象
+const truncated = complete.slice(0, complete.indexOf('第二条'));
+
+describe('parseAgentResponse', () => {
+  it('完整的JSON正常解析', () => {
+    const { data, warnings } = parseAgentResponse(complete, URL);
+    expect(data.title).toBe('示例网页');
+    expect(data.highlights).toHaveLength(2);
+    expect(warnings).toEqual([]);
+  });
+
+  it('代码块包裹的JSON提取后解析', () => {
+    const { data, warnings } = parseAgentResponse(`好的：\n\`\`\`json\n${complete}\n\`\`\``, URL);
+    expect(data.title).toBe('示例网页');
+    expect(warnings.map((w) => w.code)).toEqual(['extracted_json']);
+  });
+
+  it('输出在JSON中途截断时给出截断错误，而不是把其中的子对象当作结果', () => {
+    expect(() => parseAgentResponse(truncated, URL)).toThrow(TruncatedOutputError);
+    expect(() => parseAgentResponse(`\`\`\`json\n${complete.slice(0, 40)}`, URL)).toThrow(
+      TruncatedOutputError
+    );
+  });
+
+  it('截断错误归类为truncated-output', () => {
+    try {
+      parseAgentResponse(truncated, URL);
+    } catch (err) {
+      expect(toAnalysisError(err).kind).toBe('truncated-output');
+    }
+    expect.assertions(1);
+  });
+
+  it('没有输出时仍为无法解析的错误', () => {
+    expect(() => parseAgentResponse('   ', URL)).toThrow(MalformedOutputError);
+  });
+
+  it('不是JSON的文本作为摘要并给出警告', () => {
+    const { data, warnings } = parseAgentResponse('这是一段普通的文字说明。', URL);
+    expect(data.summary).toBe('这是一段普通的文字说明。');
+    expect(warnings.map((w) => w.code)).toContain('invalid_json');
+  });
+});
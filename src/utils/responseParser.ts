@@ -0,0 +1,494 @@
+import { AttemptRecord, SummaryData, HighlightItem, ParseWarning } from '../types';
+import { normalizeAnalysisOptions } from './analysisOptions';
+import { parsePartialJson } from './partialJson';
+import {
+  MalformedOutputError,
+  TargetUnreachableError,
+  TruncatedOutputError,
+  describesTargetFailure
+} from './analysisErrors';
+import { isTextSourceId } from './textSources';
+import { isHttpUrl } from './urls';
+
+const HIGHLIGHT_TYPES: HighlightItem['type'][] = [
+  'important',
+  'quote',
+  'statistic',
+  'conclusion'
+];
+
+const DEFAULT_TITLE = '网页分析结果';
+const DEFAULT_SUMMARY = '无法获取摘要';
+const DEFAULT_READING_TIME = '未知';
+
+export interface ParseResult {
+  data: SummaryData;
+  warnings: ParseWarning[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// 从文本中找出第一个括号平衡的JSON对象（忽略字符串内的括号）
+const findBalancedObject = (text: string): string | null => {
+  let start = text.indexOf('{');
+
+  while (start !== -1) {
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') inString = true;
+      else if (char === '{') depth++;
+      else if (char === '}') {
+        depth--;
+        if (depth === 0) {
+          const candidate = text.slice(start, i + 1);
+          if (isRecord(tryParse(candidate))) return candidate;
+          break;
+        }
+      }
+    }
+
+    start = text.indexOf('{', start + 1);
+  }
+
+  return null;
+};
+
+// 从模型输出中提取JSON：纯JSON、```json代码块、或夹杂说明文字的JSON
+export const extractJson = (
+  text: string
+): { value: RawRecord; wrapped: boolean } | null => {
+  const trimmed = text.trim();
+
+  const direct = tryParse(trimmed);
+  if (isRecord(direct)) return { value: direct, wrapped: false };
+
+  const fencePattern = /```(?:json|JSON)?\s*([\s\S]*?)```/g;
+  let match: RegExpExecArray | null;
+  while ((match = fencePattern.exec(trimmed)) !== null) {
+    const fenced = tryParse(match[1].trim());
+    if (isRecord(fenced)) return { value: fenced, wrapped: true };
+  }
+
+  const balanced = findBalancedObject(trimmed);
+  if (balanced) {
+    return { value: JSON.parse(balanced) as RawRecord, wrapped: true };
+  }
+
+  return null;
+};
+
+const coerceString = (
+  raw: RawRecord,
+  field: keyof SummaryData,
+  fallback: string,
+  warnings: ParseWarning[]
+): string => {
+  const value = raw[field];
+
+  if (typeof value === 'string' && value.trim()) return value.trim();
+
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    warnings.push({
+      field,
+      code: 'coerced_value',
+      message: `字段 ${field} 应为字符串，已自动转换`
+    });
+    return String(value);
+  }
+
+  warnings.push({
+    field,
+    code: value === undefined ? 'missing_field' : 'invalid_value',
+    message: `字段 ${field} 缺失或无效，已使用默认值`
+  });
+  return fallback;
+};
+
+const coerceStringList = (
+  raw: RawRecord,
+  field: 'keyPoints' | 'keywords',
+  separator: RegExp,
+  warnings: ParseWarning[]
+): string[] => {
+  const value = raw[field];
+
+  if (value === undefined) {
+    warnings.push({
+      field,
+      code: 'missing_field',
+      message: `字段 ${field} 缺失`
+    });
+    return [];
+  }
+
+  if (typeof value === 'string') {
+    warnings.push({
+      field,
+      code: 'coerced_value',
+      message: `字段 ${field} 应为数组，已从文本拆分`
+    });
+    return value
+      .split(separator)
+      .map((item) => item.replace(/^\s*(?:[-*•]|\d+[.、)])\s*/, '').trim())
+      .filter(Boolean);
+  }
+
+  if (!Array.isArray(value)) {
+    warnings.push({
+      field,
+      code: 'invalid_value',
+      message: `字段 ${field} 类型无效，已忽略`
+    });
+    return [];
+  }
+
+  const items: string[] = [];
+  let dropped = 0;
+
+  value.forEach((item) => {
+    if (typeof item === 'string' && item.trim()) items.push(item.trim());
+    else if (typeof item === 'number') items.push(String(item));
+    else dropped++;
+  });
+
+  if (dropped > 0) {
+    warnings.push({
+      field,
+      code: 'dropped_item',
+      message: `字段 ${field} 中有 ${dropped} 项无效，已丢弃`
+    });
+  }
+
+  return items;
+};
+
+const coerceIndex = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+    return value;
+  }
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return Number(value);
+  }
+  return undefined;
+};
+
+const coerceHighlights = (
+  raw: RawRecord,
+  warnings: ParseWarning[]
+): HighlightItem[] => {
+  const value = raw.highlights;
+
+  if (value === undefined) {
+    warnings.push({
+      field: 'highlights',
+      code: 'missing_field',
+      message: '字段 highlights 缺失'
+    });
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    warnings.push({
+      field: 'highlights',
+      code: 'invalid_value',
+      message: '字段 highlights 类型无效，已忽略'
+    });
+    return [];
+  }
+
+  const highlights: HighlightItem[] = [];
+  const usedIds = new Set<string>();
+  let dropped = 0;
+  let retyped = 0;
+  let invalidRanges = 0;
+
+  value.forEach((item, index) => {
+    const entry: RawRecord =
+      typeof item === 'string' ? { text: item } : isRecord(item) ? item : {};
+    const text = typeof entry.text === 'string' ? entry.text.trim() : '';
+
+    if (!text) {
+      dropped++;
+      return;
+    }
+
+    let type = entry.type as HighlightItem['type'];
+    if (!HIGHLIGHT_TYPES.includes(type)) {
+      if (entry.type !== undefined) retyped++;
+      type = 'important';
+    }
+
+    let id =
+      typeof entry.id === 'string' || typeof entry.id === 'number'
+        ? String(entry.id)
+        : '';
+    if (!id || usedIds.has(id)) id = `highlight-${index}`;
+    usedIds.add(id);
+
+    const highlight: HighlightItem = { id, text, type };
+
+    if (typeof entry.context === 'string' && entry.context.trim()) {
+      highlight.context = entry.context.trim();
+    }
+
+    // 用户批注信息只会出现在导入的历史记录中，原样保留
+    if (entry.author === 'user') highlight.author = 'user';
+    if (entry.editedByUser === true) highlight.editedByUser = true;
+    if (typeof entry.note === 'string' && entry.note.trim()) {
+      highlight.note = entry.note.trim();
+    }
+
+    const startIndex = coerceIndex(entry.startIndex);
+    const endIndex = coerceIndex(entry.endIndex);
+    if (
+      startIndex !== undefined &&
+      endIndex !== undefined &&
+      startIndex < endIndex
+    ) {
+      highlight.startIndex = startIndex;
+      highlight.endIndex = endIndex;
+    } else if (entry.startIndex !== undefined || entry.endIndex !== undefined) {
+      invalidRanges++;
+    }
+
+    highlights.push(highlight);
+  });
+
+  if (dropped > 0) {
+    warnings.push({
+      field: 'highlights',
+      code: 'dropped_item',
+      message: `有 ${dropped} 条高亮缺少文本，已丢弃`
+    });
+  }
+  if (retyped > 0) {
+    warnings.push({
+      field: 'highlights',
+      code: 'coerced_value',
+      message: `有 ${retyped} 条高亮类型未知，已归为「重要内容」`
+    });
+  }
+  if (invalidRanges > 0) {
+    warnings.push({
+      field: 'highlights',
+      code: 'invalid_value',
+      message: `有 ${invalidRanges} 条高亮的位置信息无效，已忽略`
+    });
+  }
+
+  return highlights;
+};
+
+const coerceReadingTime = (
+  raw: RawRecord,
+  warnings: ParseWarning[]
+): string => {
+  if (typeof raw.readingTime === 'number' && raw.readingTime > 0) {
+    warnings.push({
+      field: 'readingTime',
+      code: 'coerced_value',
+      message: '字段 readingTime 为数字，已按分钟转换'
+    });
+    return `${Math.round(raw.readingTime)}分钟`;
+  }
+  return coerceString(raw, 'readingTime', DEFAULT_READING_TIME, warnings);
+};
+
+const coerceDate = (value: unknown): string => {
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) {
+    return new Date(value).toISOString();
+  }
+  return new Date().toISOString();
+};
+
+// 正文字段名因Agent实现而异，依次尝试常见的几个
+const SOURCE_TEXT_FIELDS = ['sourceText', 'content', 'articleText'];
+
+const coerceSourceText = (raw: RawRecord): string | undefined => {
+  for (const field of SOURCE_TEXT_FIELDS) {
+    const value = raw[field];
+    if (typeof value === 'string' && value.trim()) return value;
+  }
+  return undefined;
+};
+
+// Mastra的generate可能返回 { text, object } 包装，优先取其中的结构化内容
+const unwrapAgentResult = (result: unknown): unknown => {
+  if (!isRecord(result)) return result;
+  if ('summary' in result || 'title' in result) return result;
+  if (isRecord(result.object)) return result.object;
+  if (typeof result.text === 'string') return result.text;
+  return result;
+};
+
+const isAttemptRecord = (value: unknown): value is AttemptRecord =>
+  isRecord(value) &&
+  (value.step === 'stream' || value.step === 'generate') &&
+  isRecord(value.endpoint) &&
+  typeof value.endpoint.name === 'string' &&
+  typeof value.attempt === 'number' &&
+  typeof value.elapsedMs === 'number' &&
+  typeof value.ok === 'boolean';
+
+// 出现其中任一字段后才开始展示部分结果
+const STREAMED_FIELDS = ['title', 'summary', 'keyPoints', 'keywords', 'highlights'];
+
+const hasSummaryFields = (value: unknown): boolean =>
+  isRecord(value) && STREAMED_FIELDS.some((field) => field in value);
+
+// JSON已经开始输出摘要字段却没有闭合，说明输出在中途被截断；
+// 此时提取到的只能是其中已闭合的子对象（如某条高亮），或者什么也提取不到
+const looksTruncated = (text: string, extracted: RawRecord | undefined): boolean =>
+  hasSummaryFields(parsePartialJson(text)) && !hasSummaryFields(extracted);
+
+// 根据流式输出中已收到的部分构建结果，尚未出现的字段留空，
+// 输出不是JSON或还没有任何字段时返回null
+export const parsePartialSummary = (
+  text: string,
+  url: string
+): SummaryData | null => {
+  const raw = parsePartialJson(text);
+  if (!isRecord(raw) || !STREAMED_FIELDS.some((field) => field in raw)) {
+    return null;
+  }
+
+  // 部分结果的修复记录没有意义，最终结果会重新完整校验
+  const ignored: ParseWarning[] = [];
+  return {
+    title: typeof raw.title === 'string' ? raw.title : '',
+    summary: typeof raw.summary === 'string' ? raw.summary : '',
+    keyPoints: coerceStringList(raw, 'keyPoints', /\n+/, ignored),
+    keywords: coerceStringList(raw, 'keywords', /[,，、;；\n]+/, ignored),
+    highlights: coerceHighlights(raw, ignored),
+    readingTime:
+      typeof raw.readingTime === 'string' || typeof raw.readingTime === 'number'
+        ? coerceReadingTime(raw, ignored)
+        : '',
+    ...(isTextSourceId(url) ? { sourceId: url } : { sourceUrl: url })
+  };
+};
+
+// 将Agent返回的任意内容规范化为SummaryData，并记录所有修复操作
+export const parseAgentResponse = (
+  result: unknown,
+  url: string
+): ParseResult => {
+  const warnings: ParseWarning[] = [];
+  const unwrapped = unwrapAgentResult(result);
+  let raw: RawRecord;
+
+  if (typeof unwrapped === 'string') {
+    const extracted = extractJson(unwrapped);
+
+    if (looksTruncated(unwrapped, extracted?.value)) {
+      throw new TruncatedOutputError(`已收到 ${unwrapped.length} 个字符：…${unwrapped.slice(-200)}`);
+    } else if (extracted) {
+      raw = extracted.value;
+      if (extracted.wrapped) {
+        warnings.push({
+          field: 'response',
+          code: 'extracted_json',
+          message: '模型输出包含多余文本，已从中提取JSON'
+        });
+      }
+    } else if (!unwrapped.trim()) {
+      throw new MalformedOutputError('模型没有返回任何内容');
+    } else if (describesTargetFailure(unwrapped)) {
+      // 模型没有输出JSON，而是说明无法读取网页
+      throw new TargetUnreachableError(unwrapped.slice(0, 300));
+    } else {
+      warnings.push({
+        field: 'response',
+        code: 'invalid_json',
+        message: '模型输出不是有效的JSON，已将全文作为摘要'
+      });
+      raw = { summary: unwrapped };
+    }
+  } else if (isRecord(unwrapped)) {
+    raw = unwrapped;
+  } else {
+    throw new MalformedOutputError('API返回格式不正确');
+  }
+
+  const data: SummaryData = {
+    title: coerceString(raw, 'title', DEFAULT_TITLE, warnings),
+    summary: coerceString(raw, 'summary', DEFAULT_SUMMARY, warnings),
+    keyPoints: coerceStringList(raw, 'keyPoints', /\n+/, warnings),
+    keywords: coerceStringList(raw, 'keywords', /[,，、;；\n]+/, warnings),
+    highlights: coerceHighlights(raw, warnings),
+    readingTime: coerceReadingTime(raw, warnings),
+    createdAt: coerceDate(raw.createdAt)
+  };
+
+  // 粘贴或上传的内容以合成的来源标识代替网址
+  if (isTextSourceId(url)) {
+    data.sourceId = url;
+    if (typeof raw.sourceName === 'string' && raw.sourceName) data.sourceName = raw.sourceName;
+  } else if (isHttpUrl(url)) {
+    // 始终使用请求的网址，不采用模型返回的sourceUrl；sourceUrl会渲染为链接并写入导出的HTML
+    data.sourceUrl = url;
+  }
+
+  const sourceText = coerceSourceText(raw);
+  if (sourceText) data.sourceText = sourceText;
+
+  // 导入的历史记录可能带有生成时的分析选项、模板版本和服务端点
+  if (isRecord(raw.options)) data.options = normalizeAnalysisOptions(raw.options);
+  if (
+    isRecord(raw.template) &&
+    typeof raw.template.id === 'string' &&
+    typeof raw.template.name === 'string' &&
+    typeof raw.template.version === 'number'
+  ) {
+    const { id, name, version } = raw.template;
+    data.template = { id, name, version };
+  }
+  if (
+    isRecord(raw.endpoint) &&
+    typeof raw.endpoint.id === 'string' &&
+    typeof raw.endpoint.name === 'string' &&
+    typeof raw.endpoint.baseUrl === 'string' &&
+    typeof raw.endpoint.agentId === 'string'
+  ) {
+    const { id, name, baseUrl, agentId } = raw.endpoint;
+    data.endpoint = { id, name, baseUrl, agentId };
+  }
+
+  if (Array.isArray(raw.dismissedHighlights)) {
+    const dismissed = raw.dismissedHighlights.filter(
+      (text): text is string => typeof text === 'string' && text.trim() !== ''
+    );
+    if (dismissed.length > 0) data.dismissedHighlights = dismissed;
+  }
+
+  // 导入的历史记录中的请求诊断
+  if (Array.isArray(raw.attempts)) {
+    const attempts = raw.attempts.filter(isAttemptRecord);
+    if (attempts.length > 0) data.attempts = attempts;
+  }
+
+  return { data, warnings };
+};
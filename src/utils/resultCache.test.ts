@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeUrl } from './resultCache';
+
+describe('normalizeUrl', () => {
+  it('去掉跟踪参数和末尾斜杠，查询参数排序，主机名转小写', () => {
+    expect(normalizeUrl('https://Example.com/post/?b=2&utm_source=x&a=1&fbclid=y')).toBe(
+      'https://example.com/post?a=1&b=2'
+    );
+  });
+
+  it('去掉页内锚点', () => {
+    expect(normalizeUrl('https://example.com/post#comments')).toBe('https://example.com/post');
+  });
+
+  it('保留哈希路由的锚点，不同路由不合并', () => {
+    expect(normalizeUrl('https://example.com/#/articles/1')).toBe('https://example.com#/articles/1');
+    expect(normalizeUrl('https://example.com/#!/articles/2')).toBe('https://example.com#!/articles/2');
+    expect(normalizeUrl('https://example.com/#!page=3')).toBe('https://example.com#!page=3');
+    expect(normalizeUrl('https://example.com/app#/a')).not.toBe(normalizeUrl('https://example.com/app#/b'));
+  });
+
+  it('无法解析的地址只去掉首尾空白和末尾斜杠', () => {
+    expect(normalizeUrl('  not a url/ ')).toBe('not a url');
+  });
+});
@@ -0,0 +1,146 @@
+import { AnalysisOptions, EndpointRef, ResultCacheEntry, SummaryData, TemplateRef } from '../types';
+import { normalizeAnalysisOptions } from './analysisOptions';
+import { isTextSourceId } from './textSources';
+
+const STORAGE_KEY = 'web-summarizer-result-cache';
+const TTL_STORAGE_KEY = 'web-summarizer-cache-ttl';
+
+// 结果含网页正文，条数过多容易超出本地存储配额
+export const RESULT_CACHE_MAX_ITEMS = 30;
+export const DEFAULT_CACHE_TTL_HOURS = 24;
+
+export const CACHE_TTL_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 0, label: '不使用缓存' },
+  { hours: 1, label: '1小时' },
+  { hours: 6, label: '6小时' },
+  { hours: 24, label: '1天' },
+  { hours: 168, label: '7天' }
+];
+
+// 不影响页面内容的跟踪参数
+const TRACKING_PARAM = /^(utm_\w+|fbclid|gclid|dclid|msclkid|yclid|mc_cid|mc_eid|igshid|spm|ref_src)$/i;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// 哈希路由（#/path、#!path）的锚点决定页面内容，需保留
+const ROUTE_FRAGMENT = /^#[/!]/;
+
+// 去掉跟踪参数、页内锚点和末尾斜杠并排序查询参数，使仅有细微差别的链接对应同一条缓存
+export const normalizeUrl = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim().replace(/\/+$/, '');
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !TRACKING_PARAM.test(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+  const path = parsed.pathname.replace(/\/+$/, '');
+  const fragment = ROUTE_FRAGMENT.test(parsed.hash) ? parsed.hash : '';
+
+  return `${parsed.protocol}//${parsed.host.toLowerCase()}${path}${query ? `?${query}` : ''}${fragment}`;
+};
+
+export const createCacheKey = (
+  url: string,
+  options: AnalysisOptions,
+  template: TemplateRef,
+  endpoint: EndpointRef
+): string =>
+  [
+    // 文本内容的来源标识由内容哈希生成，无需规范化
+    isTextSourceId(url) ? url : normalizeUrl(url),
+    `${endpoint.id}:${endpoint.agentId}`,
+    `${template.id}@v${template.version}`,
+    JSON.stringify(normalizeAnalysisOptions(options))
+  ].join('|');
+
+// 只有带完整生成参数的结果才能计算缓存键；
+// 回退到备用端点生成的结果按请求的端点缓存，下次请求同一端点时才能命中
+export const cacheKeyForData = (
+  url: string,
+  data: SummaryData,
+  endpoint: EndpointRef | undefined = data.endpoint
+): string | null =>
+  data.options && data.template && endpoint
+    ? createCacheKey(url, data.options, data.template, endpoint)
+    : null;
+
+const isCacheEntry = (value: unknown): value is ResultCacheEntry => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.key === 'string' &&
+    typeof entry.url === 'string' &&
+    typeof entry.cachedAt === 'string' &&
+    typeof entry.data === 'object' &&
+    entry.data !== null
+  );
+};
+
+const loadEntries = (): ResultCacheEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isCacheEntry) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveEntries = (entries: ResultCacheEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('保存结果缓存失败:', error);
+  }
+};
+
+export const isCacheEntryFresh = (entry: ResultCacheEntry, ttlHours: number, now = Date.now()) =>
+  ttlHours > 0 && now - new Date(entry.cachedAt).getTime() < ttlHours * HOUR_MS;
+
+// 按当前的有效期判断，修改有效期后对已有缓存立即生效
+export const getCachedResult = (key: string, ttlHours: number): ResultCacheEntry | null => {
+  const entry = loadEntries().find((item) => item.key === key);
+  return entry && isCacheEntryFresh(entry, ttlHours) ? entry : null;
+};
+
+// 写入时同时清理已过期的条目，最新的排在前面
+export const putCachedResult = (entry: ResultCacheEntry, ttlHours: number) => {
+  const rest = loadEntries().filter(
+    (item) => item.key !== entry.key && isCacheEntryFresh(item, ttlHours)
+  );
+  saveEntries([entry, ...rest].slice(0, RESULT_CACHE_MAX_ITEMS));
+};
+
+export const clearResultCache = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const loadCacheTtl = (): number => {
+  const stored = localStorage.getItem(TTL_STORAGE_KEY);
+  const hours = Number(stored);
+  return stored !== null && CACHE_TTL_OPTIONS.some((option) => option.hours === hours)
+    ? hours
+    : DEFAULT_CACHE_TTL_HOURS;
+};
+
+export const saveCacheTtl = (ttlHours: number) => {
+  try {
+    localStorage.setItem(TTL_STORAGE_KEY, String(ttlHours));
+  } catch (error) {
+    console.error('保存缓存有效期失败:', error);
+  }
+};
+
+// 用于缓存标记，例如「3小时前」
+export const formatCacheAge = (cachedAt: string, now = Date.now()): string => {
+  const minutes = Math.floor((now - new Date(cachedAt).getTime()) / 60000);
+  if (minutes < 1) return '刚刚';
+  if (minutes < 60) return `${minutes}分钟前`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}小时前`;
+  return `${Math.floor(hours / 24)}天前`;
+};
@@ -0,0 +1,185 @@
+import { AgentEndpoint, AttemptRecord, RetryPolicy, RetryableErrorKind } from '../types';
+import { AnalysisAbortedError, raceWithSignal, throwIfAborted } from './abort';
+import { toEndpointRef } from './endpoints';
+
+const STORAGE_KEY = 'web-summarizer-retry-policy';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  retryOn: ['network', 'server', 'rate-limit']
+};
+
+// 只尝试一次，用于需要如实反映端点表现的场景（如对比评测）
+export const NO_RETRY_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+
+export const MAX_ATTEMPTS_RANGE = { min: 1, max: 5 };
+// Retry-After 过长时不再等待，直接进入回退链的下一步
+const MAX_RETRY_AFTER_MS = 60000;
+
+export const RETRYABLE_ERROR_LABELS: Record<RetryableErrorKind, string> = {
+  network: '网络错误',
+  server: '服务端错误（5xx）',
+  'rate-limit': '请求过多（429）'
+};
+
+export const ATTEMPT_STEP_LABELS: Record<AttemptRecord['step'], string> = {
+  stream: '流式',
+  generate: '普通分析'
+};
+
+// 服务端返回非2xx状态码时抛出，携带状态码与 Retry-After
+export class AgentHttpError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AgentHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Retry-After 可以是秒数或HTTP日期
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// 读取错误上的HTTP状态码（AgentHttpError或客户端库的错误）
+export const errorStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+// 判断失败原因；取消和超时由调用方的signal处理，不在此重试
+export const classifyError = (error: unknown): RetryableErrorKind | 'other' => {
+  if (error instanceof AnalysisAbortedError) return 'other';
+  const status = errorStatus(error);
+  if (status === 429) return 'rate-limit';
+  if (status !== undefined) return status >= 500 ? 'server' : 'other';
+  // 浏览器中fetch无法连接时抛出TypeError
+  return error instanceof TypeError ? 'network' : 'other';
+};
+
+// 指数退避加抖动：在退避时间的后半段内随机取值；服务端给出 Retry-After 时以其为准
+export const retryDelay = (
+  policy: RetryPolicy,
+  attempt: number,
+  error: unknown,
+  random: () => number = Math.random
+): number => {
+  if (error instanceof AgentHttpError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  const backoff = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.round(backoff / 2 + random() * (backoff / 2));
+};
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  raceWithSignal(new Promise<void>((resolve) => setTimeout(resolve, ms)), signal);
+
+interface RetryContext {
+  policy: RetryPolicy;
+  signal: AbortSignal;
+  step: AttemptRecord['step'];
+  endpoint: AgentEndpoint;
+  // 每次尝试的记录追加到这里
+  attempts: AttemptRecord[];
+  // 返回false时不再重试，例如流式输出已经开始
+  canRetry?: () => boolean;
+}
+
+// 按重试策略执行一个步骤，所有尝试都失败时抛出最后一次的错误
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  { policy, signal, step, endpoint, attempts, canRetry }: RetryContext
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    const startedAt = Date.now();
+    const record: AttemptRecord = {
+      step,
+      endpoint: toEndpointRef(endpoint),
+      attempt,
+      startedAt: new Date(startedAt).toISOString(),
+      elapsedMs: 0,
+      ok: false
+    };
+    attempts.push(record);
+
+    try {
+      const result = await task();
+      record.elapsedMs = Date.now() - startedAt;
+      record.ok = true;
+      return result;
+    } catch (error) {
+      record.elapsedMs = Date.now() - startedAt;
+      record.error = error instanceof Error ? error.message : String(error);
+      record.errorKind = classifyError(error);
+      throwIfAborted(signal);
+
+      const kind = record.errorKind;
+      const delay = retryDelay(policy, attempt, error);
+      const retryable =
+        kind !== 'other' &&
+        policy.retryOn.includes(kind) &&
+        attempt < policy.maxAttempts &&
+        delay <= MAX_RETRY_AFTER_MS &&
+        (canRetry?.() ?? true);
+      if (!retryable) throw error;
+
+      record.retryDelayMs = delay;
+      await sleep(delay, signal);
+    }
+  }
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const normalizeRetryPolicy = (value: unknown): RetryPolicy => {
+  const raw = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+  const defaults = DEFAULT_RETRY_POLICY;
+  const maxAttempts = Number(raw.maxAttempts);
+  const baseDelayMs = Number(raw.baseDelayMs);
+  const maxDelayMs = Number(raw.maxDelayMs);
+
+  const policy: RetryPolicy = {
+    maxAttempts: Number.isFinite(maxAttempts)
+      ? clamp(Math.round(maxAttempts), MAX_ATTEMPTS_RANGE.min, MAX_ATTEMPTS_RANGE.max)
+      : defaults.maxAttempts,
+    baseDelayMs: Number.isFinite(baseDelayMs) && baseDelayMs > 0 ? baseDelayMs : defaults.baseDelayMs,
+    maxDelayMs: Number.isFinite(maxDelayMs) && maxDelayMs > 0 ? maxDelayMs : defaults.maxDelayMs,
+    retryOn: Array.isArray(raw.retryOn)
+      ? raw.retryOn.filter(
+          (kind): kind is RetryableErrorKind => typeof kind === 'string' && kind in RETRYABLE_ERROR_LABELS
+        )
+      : defaults.retryOn
+  };
+  if (typeof raw.fallbackEndpointId === 'string' && raw.fallbackEndpointId) {
+    policy.fallbackEndpointId = raw.fallbackEndpointId;
+  }
+  return policy;
+};
+
+export const loadRetryPolicy = (): RetryPolicy => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? normalizeRetryPolicy(JSON.parse(stored)) : DEFAULT_RETRY_POLICY;
+  } catch {
+    return DEFAULT_RETRY_POLICY;
+  }
+};
+
+export const saveRetryPolicy = (policy: RetryPolicy) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(policy));
+  } catch (error) {
+    console.error('保存重试策略失败:', error);
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisHistory } from '../types';
+import { createSearchIndex, tokenize } from './searchIndex';
+
+const record = (id: string, title: string, summary = ''): AnalysisHistory => ({
+  id,
+  url: `https://example.com/${id}`,
+  title,
+  summary,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  data: { title, summary, keyPoints: [], keywords: [], highlights: [], readingTime: '1分钟' }
+});
+
+describe('tokenize', () => {
+  it('拉丁文本按单词切分并转为小写', () => {
+    expect(tokenize('Hello, World 2024!')).toEqual(['hello', 'world', '2024']);
+  });
+
+  it('中文按二元组切分，单字保留为一元组', () => {
+    expect(tokenize('前端框架')).toEqual(['前端', '端框', '框架']);
+    expect(tokenize('和')).toEqual(['和']);
+  });
+
+  it('中英文混排不加空格时拉丁单词与中文分开切分', () => {
+    expect(tokenize('使用React构建前端')).toEqual(['使用', 'react', '构建', '建前', '前端']);
+    expect(tokenize('Vue3和TypeScript')).toEqual(['vue3', '和', 'typescript']);
+  });
+
+  it('日文假名与韩文同样按二元组切分', () => {
+    expect(tokenize('テスト')).toEqual(['テス', 'スト']);
+    expect(tokenize('검색')).toEqual(['검색']);
+  });
+});
+
+describe('createSearchIndex', () => {
+  const index = createSearchIndex();
+  index.rebuild([
+    record('react', '使用React构建前端应用', '介绍Hooks与组件设计'),
+    record('vue', 'Vue3和TypeScript实践'),
+    record('go', 'Go语言并发模型')
+  ]);
+
+  const ids = (query: string) => index.search(query).map((result) => result.id);
+
+  it('中英文混排的标题可以按英文关键词找到', () => {
+    expect(ids('react')).toEqual(['react']);
+    expect(ids('typescript')).toEqual(['vue']);
+  });
+
+  it('英文关键词支持前缀匹配', () => {
+    expect(ids('reac')).toEqual(['react']);
+    expect(index.search('reac')[0].matchedTerms).toEqual(['react']);
+  });
+
+  it('中文关键词按二元组匹配', () => {
+    expect(ids('前端')).toEqual(['react']);
+    expect(ids('并发')).toEqual(['go']);
+  });
+
+  it('多个词项之间为AND关系', () => {
+    expect(ids('react 前端')).toEqual(['react']);
+    expect(ids('react 并发')).toEqual([]);
+  });
+
+  it('移除记录后不再命中', () => {
+    const local = createSearchIndex();
+    local.add(record('react', '使用React构建前端应用'));
+    local.remove('react');
+    expect(local.search('react')).toEqual([]);
+    expect(local.size).toBe(0);
+  });
+});
@@ -0,0 +1,230 @@
+import { AnalysisHistory } from '../types';
+
+// 各字段的权重，标题与关键词命中更相关
+const FIELD_WEIGHTS = {
+  title: 5,
+  keywords: 4,
+  keyPoints: 2,
+  summary: 1.5,
+  highlights: 1,
+  url: 1
+} as const;
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+export interface SearchResult {
+  id: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+// 平假名/片假名、CJK统一汉字（含扩展A）、韩文音节、兼容汉字
+const CJK_RANGES =
+  '\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff';
+const CJK_PATTERN = new RegExp(`[${CJK_RANGES}]`);
+// 拉丁字母与数字的连续片段不含中日韩字符，中英文混排不加空格时也能分开
+const TOKEN_PATTERN = new RegExp(
+  `[${CJK_RANGES}]+|(?:(?![${CJK_RANGES}])[\\p{L}\\p{N}])+`,
+  'gu'
+);
+
+// 分词：拉丁文本按单词切分，中日韩文本按二元组切分（单字保留为一元组）
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  const runs = text.toLowerCase().match(TOKEN_PATTERN) || [];
+
+  runs.forEach((run) => {
+    if (!CJK_PATTERN.test(run)) {
+      tokens.push(run);
+      return;
+    }
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      tokens.push(run);
+      return;
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+  });
+
+  return tokens;
+};
+
+const fieldTexts = (item: AnalysisHistory): Record<Field, string> => {
+  const data = item.data;
+  return {
+    title: item.title,
+    keywords: (data?.keywords || []).join(' '),
+    keyPoints: (data?.keyPoints || []).join(' '),
+    summary: data?.summary || item.summary,
+    highlights: (data?.highlights || [])
+      .map((h) => `${h.text} ${h.context || ''} ${h.note || ''}`)
+      .join(' '),
+    url: item.url
+  };
+};
+
+// 客户端倒排索引：词项 -> (记录ID -> 加权词频)
+export const createSearchIndex = () => {
+  const postings = new Map<string, Map<string, number>>();
+  const docTerms = new Map<string, Set<string>>();
+  const docDates = new Map<string, string>();
+
+  const remove = (id: string) => {
+    const terms = docTerms.get(id);
+    if (!terms) return;
+    terms.forEach((term) => {
+      const docs = postings.get(term);
+      docs?.delete(id);
+      if (docs && docs.size === 0) postings.delete(term);
+    });
+    docTerms.delete(id);
+    docDates.delete(id);
+  };
+
+  const add = (item: AnalysisHistory) => {
+    remove(item.id);
+    const weights = new Map<string, number>();
+    const texts = fieldTexts(item);
+
+    (Object.keys(FIELD_WEIGHTS) as Field[]).forEach((field) => {
+      tokenize(texts[field]).forEach((term) => {
+        weights.set(term, (weights.get(term) || 0) + FIELD_WEIGHTS[field]);
+      });
+    });
+
+    weights.forEach((weight, term) => {
+      if (!postings.has(term)) postings.set(term, new Map());
+      postings.get(term)!.set(item.id, weight);
+    });
+    docTerms.set(item.id, new Set(weights.keys()));
+    docDates.set(item.id, item.createdAt);
+  };
+
+  // 拉丁词项支持前缀匹配，便于边输入边搜索
+  const expandTerm = (term: string): string[] => {
+    if (CJK_PATTERN.test(term)) {
+      // 单个汉字：匹配所有包含该字的二元组
+      if (Array.from(term).length === 1) {
+        return Array.from(postings.keys()).filter((t) => t.includes(term));
+      }
+      return postings.has(term) ? [term] : [];
+    }
+    return Array.from(postings.keys()).filter((t) => t.startsWith(term));
+  };
+
+  const search = (query: string): SearchResult[] => {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) return [];
+
+    const total = docTerms.size || 1;
+    let scores: Map<string, number> | null = null;
+    const matched = new Map<string, Set<string>>();
+
+    for (const queryTerm of queryTerms) {
+      const termScores = new Map<string, number>();
+
+      // 单字查询按查询字本身高亮，而非其所在的二元组
+      const displayTerm = (term: string) =>
+        CJK_PATTERN.test(queryTerm) ? queryTerm : term;
+
+      expandTerm(queryTerm).forEach((term) => {
+        const docs = postings.get(term)!;
+        const idf = Math.log(1 + total / docs.size);
+        // 前缀匹配的得分略低于完全匹配
+        const exactness = term === queryTerm ? 1 : 0.7;
+        docs.forEach((weight, id) => {
+          termScores.set(
+            id,
+            (termScores.get(id) || 0) + weight * idf * exactness
+          );
+          if (!matched.has(id)) matched.set(id, new Set());
+          matched.get(id)!.add(displayTerm(term));
+        });
+      });
+
+      // 多个词项之间为AND关系
+      if (scores === null) {
+        scores = termScores;
+      } else {
+        const next = new Map<string, number>();
+        scores.forEach((score, id) => {
+          const termScore = termScores.get(id);
+          if (termScore !== undefined) next.set(id, score + termScore);
+        });
+        scores = next;
+      }
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from((scores ?? new Map<string, number>()).entries())
+      .map(([id, score]) => ({
+        id,
+        score,
+        matchedTerms: Array.from(matched.get(id) || [])
+      }))
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          (docDates.get(b.id) || '').localeCompare(docDates.get(a.id) || '')
+      );
+  };
+
+  return {
+    add,
+    remove,
+    search,
+    rebuild(items: AnalysisHistory[]) {
+      postings.clear();
+      docTerms.clear();
+      docDates.clear();
+      items.forEach(add);
+    },
+    clear() {
+      postings.clear();
+      docTerms.clear();
+      docDates.clear();
+    },
+    get size() {
+      return docTerms.size;
+    }
+  };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+// 将文本按命中的词项切分为高亮片段
+export const highlightMatches = (
+  text: string,
+  terms: string[]
+): TextSegment[] => {
+  if (!text || terms.length === 0) return [{ text, match: false }];
+
+  const lower = text.toLowerCase();
+  const marks = new Array<boolean>(text.length).fill(false);
+
+  terms.forEach((term) => {
+    if (!term) return;
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      marks.fill(true, index, index + term.length);
+      index = lower.indexOf(term, index + 1);
+    }
+  });
+
+  const segments: TextSegment[] = [];
+  let start = 0;
+  for (let i = 1; i <= text.length; i++) {
+    if (i === text.length || marks[i] !== marks[start]) {
+      segments.push({ text: text.slice(start, i), match: marks[start] });
+      start = i;
+    }
+  }
+  return segments;
+};
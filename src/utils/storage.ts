@@ -1,111 +1,318 @@
-import { AnalysisHistory } from '../types';
+import {
+  AnalysisHistory,
+  ChatMessage,
+  ImportIssue,
+  ImportPreview,
+  ImportReport,
+  ImportStrategy
+} from '../types';
+import { HistoryBackend, createHistoryBackend } from './historyBackends';
+import { SearchResult, createSearchIndex } from './searchIndex';
+import { parseAgentResponse } from './responseParser';
+import { carryOverAnnotations } from './annotations';
+import { groupByUrl, renumberVersions } from './historyVersions';
 
-const STORAGE_KEY = 'web-summarizer-history';
-const MAX_HISTORY_ITEMS = 50;
+let backendPromise: Promise<HistoryBackend> | null = null;
+let indexPromise: Promise<void> | null = null;
+
+// 历史记录全文索引，随增删操作增量更新
+const historyIndex = createSearchIndex();
+
+// 懒加载存储后端，首次访问时完成旧数据迁移
+const getBackend = (): Promise<HistoryBackend> => {
+  if (!backendPromise) backendPromise = createHistoryBackend();
+  return backendPromise;
+};
+
+// 首次搜索或写入前从存储构建索引
+const ensureIndex = (): Promise<void> => {
+  if (!indexPromise) {
+    indexPromise = getBackend()
+      .then((backend) => backend.getAll())
+      .then((items) => historyIndex.rebuild(items))
+      .catch((error) => {
+        indexPromise = null;
+        throw error;
+      });
+  }
+  return indexPromise;
+};
+
+// 只保留结构完整的对话消息
+const sanitizeConversation = (value: unknown): ChatMessage[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const messages = value.filter(
+    (m): m is ChatMessage =>
+      typeof m === 'object' &&
+      m !== null &&
+      (m.role === 'user' || m.role === 'assistant') &&
+      typeof m.content === 'string' &&
+      typeof m.id === 'string' &&
+      typeof m.createdAt === 'string'
+  );
+  return messages.length > 0 ? messages : undefined;
+};
+
+// 校验单条导入记录，并用响应解析器修复data中的字段
+const validateImportItem = (
+  raw: unknown,
+  index: number
+): { item: AnalysisHistory } | { issue: ImportIssue } => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { issue: { index, reason: '不是有效的记录对象' } };
+  }
+
+  const record = raw as Partial<AnalysisHistory>;
+  const url = typeof record.url === 'string' ? record.url : undefined;
+  const reject = (reason: string) => ({ issue: { index, url, reason } });
+
+  if (!record.id) return reject('缺少id');
+  if (!url) return reject('缺少url');
+  if (!record.title) return reject('缺少标题');
+  if (!record.createdAt || Number.isNaN(Date.parse(record.createdAt))) {
+    return reject('创建时间无效');
+  }
+  if (typeof record.data !== 'object' || record.data === null) {
+    return reject('缺少摘要数据');
+  }
+
+  const { data } = parseAgentResponse(record.data, url);
+  return {
+    item: {
+      id: String(record.id),
+      url,
+      title: String(record.title),
+      summary: typeof record.summary === 'string' ? record.summary : data.summary,
+      createdAt: new Date(record.createdAt).toISOString(),
+      data,
+      version:
+        Number.isInteger(record.version) && Number(record.version) > 0 ? record.version : undefined,
+      previousVersionId:
+        typeof record.previousVersionId === 'string' && record.previousVersionId
+          ? record.previousVersionId
+          : undefined,
+      conversation: sanitizeConversation(record.conversation)
+    }
+  };
+};
+
+// 解析导入文件，保留每条有效记录在文件中的位置
+const parseImportFile = (jsonData: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonData);
+  } catch {
+    throw new Error('文件不是有效的JSON');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('导入数据格式不正确，应为历史记录数组');
+  }
+
+  const entries: { index: number; item: AnalysisHistory }[] = [];
+  const rejected: ImportIssue[] = [];
+  parsed.forEach((raw, index) => {
+    const result = validateImportItem(raw, index);
+    if ('issue' in result) rejected.push(result.issue);
+    else entries.push({ index, item: result.item });
+  });
+
+  return { total: parsed.length, entries, rejected };
+};
 
 export const storage = {
+  // 当前使用的存储后端名称
+  async getBackendName(): Promise<HistoryBackend['name']> {
+    return (await getBackend()).name;
+  },
+
   // 获取历史记录
-  getHistory(): AnalysisHistory[] {
+  async getHistory(): Promise<AnalysisHistory[]> {
     try {
-      const data = localStorage.getItem(STORAGE_KEY);
-      if (!data) return [];
-      
-      const history = JSON.parse(data) as AnalysisHistory[];
-      return Array.isArray(history) ? history : [];
+      return await (await getBackend()).getAll();
     } catch (error) {
       console.error('读取历史记录失败:', error);
       return [];
     }
   },
 
-  // 保存到历史记录
-  saveToHistory(item: AnalysisHistory): void {
-    try {
-      const history = this.getHistory();
-      
-      // 检查是否已存在相同URL的记录，如果存在则更新
-      const existingIndex = history.findIndex(h => h.url === item.url);
-      if (existingIndex !== -1) {
-        history[existingIndex] = item;
-      } else {
-        // 添加新记录到开头
-        history.unshift(item);
-      }
-      
-      // 限制历史记录数量
-      if (history.length > MAX_HISTORY_ITEMS) {
-        history.splice(MAX_HISTORY_ITEMS);
-      }
-      
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
-    } catch (error) {
-      console.error('保存历史记录失败:', error);
-    }
+  // 保存到历史记录，同一URL的记录作为新版本追加并继承上一版本的用户批注，
+  // 失败时抛出错误由调用方提示
+  async saveToHistory(item: AnalysisHistory): Promise<AnalysisHistory> {
+    const backend = await getBackend();
+    const previous = (await backend.getByUrl(item.url)).filter(
+      (h) => h.id !== item.id
+    );
+    const versioned: AnalysisHistory = {
+      ...item,
+      data: previous[0] ? carryOverAnnotations(previous[0].data, item.data) : item.data,
+      version: previous.length > 0
+        ? Math.max(...previous.map((h, i) => h.version ?? previous.length - i)) + 1
+        : 1,
+      previousVersionId: previous[0]?.id
+    };
+    await backend.put(versioned);
+
+    await ensureIndex();
+    historyIndex.add(versioned);
+    return versioned;
+  },
+
+  // 更新已有记录（如用户编辑高亮），失败时抛出错误由调用方提示
+  async updateHistoryItem(item: AnalysisHistory): Promise<void> {
+    await (await getBackend()).put(item);
+    await ensureIndex();
+    historyIndex.add(item);
+  },
+
+  // 更新指定记录的追问对话，记录已被删除时返回null
+  async updateConversation(
+    id: string,
+    conversation: ChatMessage[]
+  ): Promise<AnalysisHistory | null> {
+    const backend = await getBackend();
+    const item = await backend.get(id);
+    if (!item) return null;
+    const updated: AnalysisHistory = { ...item, conversation };
+    await backend.put(updated);
+    return updated;
   },
 
   // 从历史记录中删除指定项
-  deleteFromHistory(id: string): void {
+  async deleteFromHistory(id: string): Promise<void> {
     try {
-      const history = this.getHistory();
-      const filteredHistory = history.filter(item => item.id !== id);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(filteredHistory));
+      await (await getBackend()).delete(id);
+      historyIndex.remove(id);
     } catch (error) {
       console.error('删除历史记录失败:', error);
     }
   },
 
   // 清空所有历史记录
-  clearHistory(): void {
+  async clearHistory(): Promise<void> {
     try {
-      localStorage.removeItem(STORAGE_KEY);
+      await (await getBackend()).clear();
+      historyIndex.clear();
     } catch (error) {
       console.error('清空历史记录失败:', error);
     }
   },
 
+  // 全文搜索历史记录，按相关度排序
+  async searchHistory(query: string): Promise<SearchResult[]> {
+    try {
+      await ensureIndex();
+      return historyIndex.search(query);
+    } catch (error) {
+      console.error('搜索历史记录失败:', error);
+      return [];
+    }
+  },
+
   // 导出历史记录
-  exportHistory(): string {
-    const history = this.getHistory();
+  async exportHistory(): Promise<string> {
+    const history = await this.getHistory();
     return JSON.stringify(history, null, 2);
   },
 
-  // 导入历史记录
-  importHistory(jsonData: string): boolean {
-    try {
-      const importedHistory = JSON.parse(jsonData) as AnalysisHistory[];
-      
-      if (!Array.isArray(importedHistory)) {
-        throw new Error('导入数据格式不正确');
-      }
+  // 解析并校验导入文件，返回预览信息
+  async previewImport(jsonData: string): Promise<ImportPreview> {
+    const { total, entries, rejected } = parseImportFile(jsonData);
+    const currentUrls = new Set((await this.getHistory()).map(h => h.url));
+    return {
+      total,
+      valid: entries.map(entry => entry.item),
+      rejected,
+      conflicts: entries.filter(entry => currentUrls.has(entry.item.url)).length
+    };
+  },
 
-      // 验证数据结构
-      const validHistory = importedHistory.filter(item => {
-        return item.id && item.url && item.title && item.createdAt && item.data;
-      });
+  // 按指定策略导入历史记录，返回导入报告。
+  // keep-newest与keep-existing按URL整体取舍版本历史：保留一方的全部版本，
+  // 另一方该URL的版本全部丢弃，不把两边的版本混在一起；keep-both合并两边的全部版本。
+  // 导入后按创建时间为受影响的URL重新编号版本并重建previousVersionId链
+  async importHistory(
+    jsonData: string,
+    strategy: ImportStrategy
+  ): Promise<ImportReport> {
+    const { entries, rejected } = parseImportFile(jsonData);
+    const backend = await getBackend();
+    const current = await backend.getAll();
+    const currentById = new Map(current.map(h => [h.id, h]));
+    const currentByUrl = new Map(groupByUrl(current).map(group => [group.url, group]));
+
+    const accepted = new Map<string, AnalysisHistory>();
+    const replaced: AnalysisHistory[] = [];
+    const deduplicated: ImportIssue[] = [];
+    const incomingByUrl = new Map<string, { index: number; item: AnalysisHistory }[]>();
 
-      if (validHistory.length === 0) {
-        throw new Error('没有找到有效的历史记录');
+    entries.forEach(({ item, index }) => {
+      const same = currentById.get(item.id);
+      if (same && same.createdAt === item.createdAt) {
+        deduplicated.push({ index, url: item.url, reason: '记录已存在' });
+        return;
       }
 
-      // 与现有历史记录合并
-      const currentHistory = this.getHistory();
-      const mergedHistory = [...validHistory, ...currentHistory];
-      
-      // 去重（基于URL）
-      const uniqueHistory = mergedHistory.filter((item, index, arr) => 
-        arr.findIndex(h => h.url === item.url) === index
+      if (strategy === 'keep-both') {
+        // 保留为独立版本，ID冲突时重新分配
+        const id = currentById.has(item.id) || accepted.has(item.id)
+          ? `${item.id}-${Date.now().toString(36)}-${index}`
+          : item.id;
+        accepted.set(id, { ...item, id });
+        return;
+      }
+
+      const incoming = incomingByUrl.get(item.url);
+      if (incoming) incoming.push({ index, item });
+      else incomingByUrl.set(item.url, [{ index, item }]);
+    });
+
+    incomingByUrl.forEach((incoming, url) => {
+      const existing = currentByUrl.get(url);
+      const newestIncoming = incoming.reduce(
+        (newest, { item }) => (item.createdAt > newest ? item.createdAt : newest),
+        ''
       );
+      const useIncoming =
+        !existing ||
+        (strategy === 'keep-newest' && newestIncoming > existing.latest.createdAt);
 
-      // 限制数量
-      if (uniqueHistory.length > MAX_HISTORY_ITEMS) {
-        uniqueHistory.splice(MAX_HISTORY_ITEMS);
+      if (!useIncoming) {
+        incoming.forEach(({ index }) => deduplicated.push({
+          index,
+          url,
+          reason: strategy === 'keep-existing' ? '已保留现有记录' : '已有更新的同URL记录'
+        }));
+        return;
       }
 
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(uniqueHistory));
-      return true;
-    } catch (error) {
-      console.error('导入历史记录失败:', error);
-      return false;
-    }
+      if (existing) replaced.push(...existing.versions);
+      incoming.forEach(({ index, item }) => {
+        if (accepted.has(item.id)) {
+          deduplicated.push({ index, url, reason: '文件中存在相同ID的记录' });
+        } else {
+          accepted.set(item.id, item);
+        }
+      });
+    });
+
+    // 受影响URL的最终版本：未被替换的现有记录加上导入的记录
+    const replacedIds = new Set(replaced.map(h => h.id));
+    const affectedUrls = new Set(Array.from(accepted.values()).map(h => h.url));
+    const merged = new Map<string, AnalysisHistory>();
+    current.forEach(h => {
+      if (affectedUrls.has(h.url) && !replacedIds.has(h.id)) merged.set(h.id, h);
+    });
+    accepted.forEach(h => merged.set(h.id, h));
+    const updated = renumberVersions(Array.from(merged.values()));
+
+    await Promise.all(replaced.map(h => backend.delete(h.id)));
+    await backend.putMany(updated);
+
+    await ensureIndex();
+    replaced.forEach(h => historyIndex.remove(h.id));
+    updated.forEach(h => historyIndex.add(h));
+
+    return { accepted: accepted.size, deduplicated, rejected };
   }
 };
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { StreamChunk } from '../types';
+import { AnalysisAbortedError } from './abort';
+import { readStreamChunks } from './streamAdapter';
+import mastraSse from './__fixtures__/streams/mastra-sse.txt?raw';
+import mastraSseError from './__fixtures__/streams/mastra-sse-error.txt?raw';
+import dataStream from './__fixtures__/streams/data-stream.txt?raw';
+import dataStreamError from './__fixtures__/streams/data-stream-error.txt?raw';
+import mastraParts from './__fixtures__/streams/mastra-parts.json';
+import aiSdkParts from './__fixtures__/streams/ai-sdk-parts.json';
+
+// 录制的响应对应的完整文本
+const SUMMARY = '{"title":"示例网页","summary":"一段摘要"}';
+
+const collect = async (source: unknown, signal?: AbortSignal): Promise<StreamChunk[]> => {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of readStreamChunks(source, signal)) chunks.push(chunk);
+  return chunks;
+};
+
+const summarize = (chunks: StreamChunk[]) => ({
+  types: chunks.map((chunk) => chunk.type),
+  text: chunks
+    .filter((chunk) => chunk.type === 'chunk')
+    .map((chunk) => chunk.content)
+    .join(''),
+  last: chunks[chunks.length - 1]
+});
+
+// 按固定长度切分，模拟网络分包：行和多字节字符都可能被截断
+const split = (text: string, size: number): string[] => {
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += size) pieces.push(text.slice(i, i + size));
+  return pieces;
+};
+
+async function* iterate<T>(values: T[]): AsyncGenerator<T> {
+  yield* values;
+}
+
+const bodyOf = (pieces: Uint8Array[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach((piece) => controller.enqueue(piece));
+      controller.close();
+    }
+  });
+
+const splitBytes = (text: string, size: number): Uint8Array[] => {
+  const bytes = new TextEncoder().encode(text);
+  const pieces: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) pieces.push(bytes.slice(i, i + size));
+  return pieces;
+};
+
+describe('readStreamChunks', () => {
+  describe('响应体', () => {
+    it('解析Mastra的SSE事件，忽略非文本事件和[DONE]', async () => {
+      const { types, text, last } = summarize(await collect(new Response(mastraSse)));
+      expect(types).toEqual(['chunk', 'chunk', 'chunk', 'complete']);
+      expect(text).toBe(SUMMARY);
+      expect(last.content).toBe(SUMMARY);
+    });
+
+    it('解析数据流协议的文本行', async () => {
+      const { types, text, last } = summarize(await collect(new Response(dataStream)));
+      expect(types).toEqual(['chunk', 'chunk', 'chunk', 'complete']);
+      expect(text).toBe(SUMMARY);
+      expect(last.content).toBe(SUMMARY);
+    });
+
+    it('字节在多字节字符中间被切断时仍能正确解码', async () => {
+      const { text, last } = summarize(await collect(bodyOf(splitBytes(mastraSse, 5))));
+      expect(text).toBe(SUMMARY);
+      expect(last.type).toBe('complete');
+    });
+
+    it('SSE的error事件结束流，之后的文本被丢弃', async () => {
+      const { types, text, last } = summarize(await collect(new Response(mastraSseError)));
+      expect(types).toEqual(['chunk', 'error']);
+      expect(text).toBe('{"title"');
+      expect(last.content).toBe('model overloaded');
+    });
+
+    it('数据流协议的3:错误行结束流', async () => {
+      const { types, last } = summarize(await collect(new Response(dataStreamError)));
+      expect(types).toEqual(['chunk', 'error']);
+      expect(last.content).toBe('rate limit exceeded');
+    });
+
+    it('不符合协议的响应体按纯文本处理', async () => {
+      const { text, last } = summarize(await collect(new Response(SUMMARY)));
+      expect(text).toBe(SUMMARY);
+      expect(last).toMatchObject({ type: 'complete', content: SUMMARY });
+    });
+  });
+
+  describe('异步可迭代对象', () => {
+    it('逐段给出的SSE文本在行中间被切断时按行重新拼接', async () => {
+      const { types, text } = summarize(await collect(iterate(split(mastraSse, 7))));
+      expect(types).toEqual(['chunk', 'chunk', 'chunk', 'complete']);
+      expect(text).toBe(SUMMARY);
+    });
+
+    it('逐段给出的数据流协议字节', async () => {
+      const { text } = summarize(await collect(iterate(splitBytes(dataStream, 4))));
+      expect(text).toBe(SUMMARY);
+    });
+
+    it('Mastra的结构化事件只取text-delta', async () => {
+      const { types, text } = summarize(await collect(iterate(mastraParts)));
+      expect(types).toEqual(['chunk', 'chunk', 'chunk', 'complete']);
+      expect(text).toBe(SUMMARY);
+    });
+
+    it('AI SDK的textDelta事件', async () => {
+      const { text } = summarize(await collect(iterate(aiSdkParts)));
+      expect(text).toBe(SUMMARY);
+    });
+
+    it('结构化的error事件结束流', async () => {
+      const parts = [mastraParts[1], { type: 'error', error: { message: 'boom' } }, mastraParts[3]];
+      const { types, last } = summarize(await collect(iterate(parts)));
+      expect(types).toEqual(['chunk', 'error']);
+      expect(last.content).toBe('boom');
+    });
+  });
+
+  describe('processDataStream回调', () => {
+    it('按回调顺序给出文本', async () => {
+      const response = {
+        processDataStream: async (handlers: Record<string, (value: unknown) => void>) => {
+          for (const part of aiSdkParts) {
+            await Promise.resolve();
+            handlers.onChunk(part);
+          }
+        }
+      };
+      const { types, text } = summarize(await collect(response));
+      expect(types).toEqual(['chunk', 'chunk', 'chunk', 'complete']);
+      expect(text).toBe(SUMMARY);
+    });
+
+    it('onErrorPart给出error事件', async () => {
+      const response = {
+        processDataStream: async (handlers: Record<string, (value: unknown) => void>) => {
+          handlers.onTextPart('{"title"');
+          handlers.onErrorPart('stream failed');
+        }
+      };
+      const { types, last } = summarize(await collect(response));
+      expect(types).toEqual(['chunk', 'error']);
+      expect(last.content).toBe('stream failed');
+    });
+
+    it('processDataStream失败时抛出原始错误', async () => {
+      const response = {
+        processDataStream: async () => {
+          throw new Error('connection reset');
+        }
+      };
+      await expect(collect(response)).rejects.toThrow('connection reset');
+    });
+  });
+
+  describe('普通返回值', () => {
+    it('字符串与{ text }', async () => {
+      expect(summarize(await collect(SUMMARY)).last.content).toBe(SUMMARY);
+      expect(summarize(await collect({ text: SUMMARY })).last.content).toBe(SUMMARY);
+    });
+
+    it('空返回值只给出空的complete事件', async () => {
+      expect(await collect(null)).toMatchObject([{ type: 'complete', content: '' }]);
+    });
+  });
+
+  it('取消后抛出AnalysisAbortedError', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(collect(new Response(mastraSse), controller.signal)).rejects.toBeInstanceOf(
+      AnalysisAbortedError
+    );
+  });
+});
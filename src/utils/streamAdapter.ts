@@ -0,0 +1,243 @@
+import { StreamChunk } from '../types';
+import { throwIfAborted } from './abort';
+
+// AI SDK数据流协议的一行，例如 0:"文本"、3:"错误"、d:{...}
+const DATA_STREAM_LINE = /^([0-9a-z]):(.*)$/;
+const SSE_DATA_LINE = /^data:\s?(.*)$/;
+
+type Part = { type: 'text' | 'error'; content: string } | null;
+
+const event = (type: StreamChunk['type'], content: string): StreamChunk => ({
+  type,
+  content,
+  timestamp: Date.now()
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const errorMessage = (error: unknown): string => {
+  if (typeof error === 'string') return error;
+  if (isRecord(error) && typeof error.message === 'string') return error.message;
+  return error === undefined ? '流式响应出错' : JSON.stringify(error);
+};
+
+// 结构化的流事件：Mastra的 { type: 'text-delta', payload: { text } }
+// 以及AI SDK的 { type: 'text-delta', textDelta } 等，只关心文本与错误
+const toPart = (value: unknown): Part => {
+  if (typeof value === 'string') return value ? { type: 'text', content: value } : null;
+  if (!isRecord(value)) return null;
+
+  const payload = isRecord(value.payload) ? value.payload : value;
+  if (value.type === 'error') {
+    return { type: 'error', content: errorMessage(payload.error ?? value.error) };
+  }
+  if (value.type === 'text-delta' || value.type === 'text') {
+    const text = payload.text ?? payload.textDelta ?? payload.delta;
+    return typeof text === 'string' && text ? { type: 'text', content: text } : null;
+  }
+  return null;
+};
+
+// 协议文本中的一行：SSE的 data: 行或数据流协议的 类型:JSON 行
+const parseLine = (line: string): Part => {
+  const sse = SSE_DATA_LINE.exec(line);
+  if (sse) {
+    return sse[1] === '[DONE]' ? null : toPart(tryParse(sse[1]));
+  }
+
+  const part = DATA_STREAM_LINE.exec(line);
+  if (!part) return null;
+  const value = tryParse(part[2]);
+  if (part[1] === '0' && typeof value === 'string') return toPart(value);
+  if (part[1] === '3') return { type: 'error', content: errorMessage(value) };
+  return null;
+};
+
+// 响应开头符合这些前缀时按协议逐行解析，否则视为纯文本流
+const PROTOCOL_PREFIX = /^(data:|event:|id:|retry:|[0-9a-z]:["{[])/;
+const PREFIX_PROBE_LENGTH = 6;
+
+async function* decodeText(texts: AsyncIterable<string>): AsyncGenerator<Part> {
+  let mode: 'unknown' | 'protocol' | 'plain' = 'unknown';
+  let buffer = '';
+
+  for await (const text of texts) {
+    buffer += text;
+    if (mode === 'unknown') {
+      const head = buffer.trimStart();
+      if (head.length < PREFIX_PROBE_LENGTH && !head.includes('\n')) continue;
+      mode = PROTOCOL_PREFIX.test(head) ? 'protocol' : 'plain';
+    }
+
+    if (mode === 'plain') {
+      yield toPart(buffer);
+      buffer = '';
+      continue;
+    }
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) yield parseLine(line.replace(/\r$/, ''));
+  }
+
+  yield mode === 'protocol' ? parseLine(buffer.replace(/\r$/, '')) : toPart(buffer);
+}
+
+async function* readBody(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield decoder.decode(value, { stream: true });
+    }
+    const rest = decoder.decode();
+    if (rest) yield rest;
+  } finally {
+    // 消费方提前退出（取消、出错）时关闭连接
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+async function* fromValues(values: unknown[]): AsyncGenerator<unknown> {
+  yield* values;
+}
+
+// 只提供 processDataStream 回调接口的响应，转换为可迭代的事件
+async function* fromCallbacks(
+  processDataStream: (handlers: Record<string, (value: unknown) => void>) => Promise<void>
+): AsyncGenerator<Part> {
+  const parts: Part[] = [];
+  let notify: (() => void) | null = null;
+  let finished = false;
+  let failure: unknown;
+
+  const push = (part: Part) => {
+    parts.push(part);
+    notify?.();
+  };
+
+  processDataStream({
+    onTextPart: (text) => push(toPart(text)),
+    onErrorPart: (error) => push({ type: 'error', content: errorMessage(error) }),
+    onChunk: (chunk) => push(toPart(chunk))
+  }).then(
+    () => {
+      finished = true;
+      notify?.();
+    },
+    (error) => {
+      failure = error;
+      finished = true;
+      notify?.();
+    }
+  );
+
+  while (true) {
+    if (parts.length > 0) {
+      yield parts.shift() as Part;
+      continue;
+    }
+    if (finished) break;
+    await new Promise<void>((resolve) => {
+      notify = resolve;
+    });
+    notify = null;
+  }
+  if (failure) throw failure;
+}
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as Partial<AsyncIterable<unknown>>)[Symbol.asyncIterator] === 'function';
+
+const isReadableStream = (value: unknown): value is ReadableStream<Uint8Array> =>
+  isRecord(value) && typeof value.getReader === 'function';
+
+// 逐项迭代：字符串和字节可能是协议文本，拼接后按行解析；结构化事件直接转换
+async function* fromIterable(source: AsyncIterable<unknown>): AsyncGenerator<Part> {
+  const iterator = source[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  if (first.done) return;
+
+  async function* items() {
+    yield first.value;
+    while (true) {
+      const next = await iterator.next();
+      if (next.done) return;
+      yield next.value;
+    }
+  }
+
+  if (typeof first.value === 'string' || first.value instanceof Uint8Array) {
+    const decoder = new TextDecoder();
+    async function* texts() {
+      for await (const item of items()) {
+        yield item instanceof Uint8Array ? decoder.decode(item, { stream: true }) : String(item);
+      }
+    }
+    yield* decodeText(texts());
+    return;
+  }
+
+  for await (const item of items()) yield toPart(item);
+}
+
+// 非流式的返回值：字符串、{ text } 或其他对象
+const fromValue = (value: unknown): Part => {
+  if (typeof value === 'string') return toPart(value);
+  if (isRecord(value) && typeof value.text === 'string') return toPart(value.text);
+  return value === undefined || value === null ? null : toPart(JSON.stringify(value));
+};
+
+const toParts = (source: unknown): AsyncIterable<Part> => {
+  if (isRecord(source)) {
+    const response = source as { body?: unknown; processDataStream?: unknown };
+    if (isReadableStream(source)) return decodeText(readBody(source));
+    if (isReadableStream(response.body)) return decodeText(readBody(response.body));
+    if (isAsyncIterable(source)) return fromIterable(source);
+    if (typeof response.processDataStream === 'function') {
+      return fromCallbacks(response.processDataStream.bind(source));
+    }
+  }
+  if (Array.isArray(source)) return fromIterable(fromValues(source));
+  if (typeof source === 'string') {
+    return decodeText(fromValues([source]) as AsyncIterable<string>);
+  }
+  return fromValues([fromValue(source)]) as AsyncIterable<Part>;
+};
+
+// 将Mastra客户端返回的流式响应统一为带时间戳的StreamChunk事件序列：
+// 支持响应体（SSE或数据流协议）、异步可迭代对象、processDataStream回调以及普通返回值。
+// 文本以chunk事件逐段给出，结束时complete事件带完整文本；出错时以error事件结束
+export async function* readStreamChunks(
+  source: unknown,
+  signal?: AbortSignal
+): AsyncGenerator<StreamChunk> {
+  let fullText = '';
+
+  for await (const part of toParts(source)) {
+    if (signal) throwIfAborted(signal);
+    if (!part) continue;
+    if (part.type === 'error') {
+      yield event('error', part.content);
+      return;
+    }
+    fullText += part.content;
+    yield event('chunk', part.content);
+  }
+
+  if (signal) throwIfAborted(signal);
+  yield event('complete', fullText);
+}
@@ -0,0 +1,127 @@
+import { SummaryData, HighlightItem } from '../types';
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ListDiff<T> {
+  added: T[];
+  removed: T[];
+  unchanged: T[];
+}
+
+export interface SummaryDiff {
+  title: DiffSegment[];
+  summary: DiffSegment[];
+  keyPoints: ListDiff<string>;
+  keywords: ListDiff<string>;
+  highlights: ListDiff<HighlightItem>;
+}
+
+// 中日韩文本按单字切分，拉丁文本按单词切分，空白与标点单独成词
+const DIFF_TOKEN_PATTERN =
+  /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]|[\p{L}\p{N}]+|\s+|[^\s\p{L}\p{N}]/gu;
+
+// LCS矩阵的最大单元数，超过后中间部分整体视为替换
+const MAX_LCS_CELLS = 4000000;
+
+const diffTokens = (text: string) => text.match(DIFF_TOKEN_PATTERN) || [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) last.text += text;
+  else segments.push({ type, text });
+};
+
+// 基于最长公共子序列的词级文本差异
+export const diffText = (before: string, after: string): DiffSegment[] => {
+  const a = diffTokens(before);
+  const b = diffTokens(after);
+  const segments: DiffSegment[] = [];
+
+  // 先去掉公共前后缀，缩小LCS计算范围
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+
+  if (rows * cols > MAX_LCS_CELLS) {
+    pushSegment(segments, 'removed', midA.join(''));
+    pushSegment(segments, 'added', midB.join(''));
+  } else {
+    // lengths[i * cols + j] 为 midA[i..] 与 midB[j..] 的LCS长度
+    const lengths = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * cols + j] =
+          midA[i] === midB[j]
+            ? lengths[(i + 1) * cols + j + 1] + 1
+            : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+        pushSegment(segments, 'removed', midA[i++]);
+      } else {
+        pushSegment(segments, 'added', midB[j++]);
+      }
+    }
+    pushSegment(segments, 'removed', midA.slice(i).join(''));
+    pushSegment(segments, 'added', midB.slice(j).join(''));
+  }
+
+  pushSegment(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+};
+
+const normalizeKey = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// 按规范化后的文本比较两个列表，忽略大小写与空白差异
+export const diffList = <T>(
+  before: T[],
+  after: T[],
+  getText: (item: T) => string
+): ListDiff<T> => {
+  const beforeKeys = new Set(before.map((item) => normalizeKey(getText(item))));
+  const afterKeys = new Set(after.map((item) => normalizeKey(getText(item))));
+
+  return {
+    added: after.filter((item) => !beforeKeys.has(normalizeKey(getText(item)))),
+    removed: before.filter((item) => !afterKeys.has(normalizeKey(getText(item)))),
+    unchanged: after.filter((item) => beforeKeys.has(normalizeKey(getText(item))))
+  };
+};
+
+export const diffSummaries = (before: SummaryData, after: SummaryData): SummaryDiff => {
+  const identity = (text: string) => text;
+  return {
+    title: diffText(before.title, after.title),
+    summary: diffText(before.summary, after.summary),
+    keyPoints: diffList(before.keyPoints, after.keyPoints, identity),
+    keywords: diffList(before.keywords, after.keywords, identity),
+    highlights: diffList(before.highlights, after.highlights, (h) => h.text)
+  };
+};
+
+export const hasTextChanges = (segments: DiffSegment[]) =>
+  segments.some((segment) => segment.type !== 'equal');
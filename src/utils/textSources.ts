@@ -0,0 +1,94 @@
+import { AnalysisTarget, SummaryData, TextSource } from '../types';
+import { InvalidInputError } from './analysisErrors';
+
+// 可上传的文件类型
+export const TEXT_FILE_EXTENSIONS = ['.txt', '.md', '.markdown', '.html', '.htm'];
+
+// 提交给模型的内容上限（字符），过长的内容会超出模型上下文
+export const MAX_TEXT_SOURCE_CHARS = 50000;
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+const SOURCE_ID_PATTERN = /^(text|file):[0-9a-f]{8}$/;
+const NAME_MAX_CHARS = 30;
+
+// FNV-1a 32位哈希，相同内容得到相同的来源标识
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const isTextSourceId = (id: string): boolean => SOURCE_ID_PATTERN.test(id);
+
+// 网页URL本身即为标识，文本内容使用合成的来源标识
+export const targetId = (target: AnalysisTarget): string =>
+  typeof target === 'string' ? target : target.id;
+
+const createSource = (kind: TextSource['kind'], name: string, content: string): TextSource => {
+  const trimmed = content.trim();
+  if (!trimmed) throw new InvalidInputError('没有可分析的内容');
+  if (trimmed.length > MAX_TEXT_SOURCE_CHARS) {
+    throw new InvalidInputError(
+      `内容过长（${trimmed.length} 字），最多支持 ${MAX_TEXT_SOURCE_CHARS} 字`,
+      '请删减内容或分段提交'
+    );
+  }
+  return { id: `${kind === 'paste' ? 'text' : 'file'}:${hashText(trimmed)}`, kind, name, content: trimmed };
+};
+
+// 以粘贴文本的第一行作为名称
+export const createPastedSource = (text: string): TextSource => {
+  const firstLine = text.trim().split('\n')[0].trim();
+  const name =
+    firstLine.length > NAME_MAX_CHARS ? `${firstLine.slice(0, NAME_MAX_CHARS)}…` : firstLine;
+  return createSource('paste', name || '粘贴的文本', text);
+};
+
+// 块级元素结束处换行，避免段落粘连
+const BLOCK_END = /<(br|hr)\b[^>]*>|<\/(p|div|section|article|header|footer|li|tr|h[1-6]|pre|blockquote)>/gi;
+
+// 提取HTML文档的正文文本，去掉脚本和样式
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html.replace(BLOCK_END, '$&\n'), 'text/html');
+  doc.querySelectorAll('script, style, noscript, template').forEach((node) => node.remove());
+  return (doc.body?.textContent ?? '')
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+};
+
+// 读取上传的文件，HTML文件转换为纯文本
+export const readTextFile = async (file: File): Promise<TextSource> => {
+  const extension = extensionOf(file.name);
+  if (!TEXT_FILE_EXTENSIONS.includes(extension)) {
+    throw new InvalidInputError(
+      `不支持的文件类型：${file.name}`,
+      `请上传 ${TEXT_FILE_EXTENSIONS.join('、')} 文件；PDF等格式可以复制其中的文字后粘贴`
+    );
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    throw new InvalidInputError(`文件过大：${file.name}`, '请上传 2MB 以内的文件');
+  }
+
+  const raw = await file.text();
+  const content = extension === '.html' || extension === '.htm' ? htmlToText(raw) : raw;
+  return createSource('file', file.name, content);
+};
+
+// 文本内容的结果以来源标识代替网址，并保存提交的全文用于定位高亮
+export const applyTextSource = (data: SummaryData, source: TextSource) => {
+  delete data.sourceUrl;
+  data.sourceId = source.id;
+  data.sourceName = source.name;
+  data.sourceText = source.content;
+};
@@ -0,0 +1,9 @@
+// 只接受http(s)网址：javascript:、data:等其他协议既不能提交分析，也不能渲染为链接
+export const isHttpUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value.trim());
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
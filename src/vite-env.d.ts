@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_MASTRA_API_URL: string
   readonly VITE_AGENT_ID: string
+  readonly VITE_REQUEST_TIMEOUT_MS?: string
 }
 
 interface ImportMeta {